@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   StyleSheet,
   Text,
@@ -13,42 +13,30 @@ import {
 import { StatusBar } from 'expo-status-bar';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
-import optimizedTranslationService from './services/optimizedTranslationService';
+import optimizedTranslationService, { TranslationRequest, UNKNOWN_LANGUAGE } from './services/optimizedTranslationService';
+import { LanguageCandidate } from './utils/languageIdentifier';
+import { TranslationCandidate } from './services/persistentTranslationCache';
 import optimizedSpeechService from './services/optimizedSpeechService';
 import memoryManager from './utils/memoryManager';
+import { AbortError, isAbortError, isTimeoutError } from './utils/cancellation';
+import {
+  QUALITY_CONFIG,
+  DEFAULT_REGISTER,
+  TRANSLATION_REGISTERS,
+  TranslationRegister,
+  DEFAULT_DIGIT_STYLE,
+  DIGIT_STYLES,
+  DigitStyle,
+} from './config/gemmaConfig';
+import { SUPPORTED_LANGUAGES, getLanguage, validateLanguageRegistry } from './config/languageRegistry';
 
 const { width, height } = Dimensions.get('window');
 
-interface Language {
-  code: string;
-  name: string;
-  nativeName: string;
-}
+// Ask the user to pick when the two best language guesses are this close
+const LANGUAGE_CONFIRM_MARGIN = 0.2;
 
-const SUPPORTED_LANGUAGES: Language[] = [
-  // Indian Languages supported by both Gemma 3n and Indic Parler-TTS Mini
-  { code: 'as', name: 'Assamese', nativeName: 'অসমীয়া' },
-  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
-  { code: 'brx', name: 'Bodo', nativeName: 'बड़ो' },
-  { code: 'doi', name: 'Dogri', nativeName: 'डोगरी' },
-  { code: 'en', name: 'English', nativeName: 'English' },
-  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી' },
-  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
-  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
-  { code: 'kok', name: 'Konkani', nativeName: 'कोंकणी' },
-  { code: 'mai', name: 'Maithili', nativeName: 'मैथिली' },
-  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം' },
-  { code: 'mni', name: 'Manipuri', nativeName: 'মৈতৈলোন্' },
-  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
-  { code: 'ne', name: 'Nepali', nativeName: 'नेपाली' },
-  { code: 'or', name: 'Odia', nativeName: 'ଓଡ଼ିଆ' },
-  { code: 'sa', name: 'Sanskrit', nativeName: 'संस्कृतम्' },
-  { code: 'sat', name: 'Santali', nativeName: 'ᱥᱟᱱᱛᱟᱲᱤ' },
-  { code: 'sd', name: 'Sindhi', nativeName: 'سنڌي' },
-  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
-  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
-  { code: 'ur', name: 'Urdu', nativeName: 'اردو' },
-];
+// Fail at startup rather than show a language some module knows nothing about
+validateLanguageRegistry();
 
 /**
  * AI Translator App - Main Component
@@ -69,19 +57,43 @@ export default function App() {
   const [isRecording, setIsRecording] = useState(false);
   const [transcribedText, setTranscribedText] = useState('');
   const [translatedText, setTranslatedText] = useState('');
+  const [translatedLanguage, setTranslatedLanguage] = useState('en'); // Target of the translation on screen
   const [userPreference, setUserPreference] = useState('hi'); // Default to Hindi
   const [detectedLanguage, setDetectedLanguage] = useState('en');
   const [isLoading, setIsLoading] = useState(false);
   const [showLanguageSelector, setShowLanguageSelector] = useState(false);
   const [autoStopActive, setAutoStopActive] = useState(false);
   const [showLanguageModal, setShowLanguageModal] = useState(false);
+  const [translationQuality, setTranslationQuality] = useState<{ confidence: number; reasons: string[] } | null>(null);
+  const [alternatives, setAlternatives] = useState<TranslationCandidate[]>([]);
+  const [alternativeIndex, setAlternativeIndex] = useState(0);
+  const [register, setRegister] = useState<TranslationRegister>(DEFAULT_REGISTER);
+  const [digitStyle, setDigitStyle] = useState<DigitStyle>(DEFAULT_DIGIT_STYLE);
+  const [romanizedSource, setRomanizedSource] = useState(''); // Latin-script original of converted input
+  const [pivotInfo, setPivotInfo] = useState<{ language: string; text: string } | null>(null); // Intermediate leg of a pivoted pair
+  const [languageChoices, setLanguageChoices] = useState<LanguageCandidate[] | null>(null); // Close guesses awaiting the user
+
+  // Request behind the translation on screen, needed to pin an alternative
+  const lastRequestRef = useRef<TranslationRequest | null>(null);
+
+  // Cancels the in-flight speech/translation pipeline
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Settles the pending language question; set while the picker is open
+  const languageChoiceRef = useRef<{ resolve: (code: string) => void; reject: (error: Error) => void } | null>(null);
 
   // OPTIMIZATION #1: Initialize app with minimal startup overhead
   // Only loads user preferences, not models (lazy loading)
   useEffect(() => {
     loadUserPreference();
+    optimizedTranslationService.loadDigitPreference().then(setDigitStyle);
   }, []);
 
+  // Show the register setting of the selected target language
+  useEffect(() => {
+    optimizedTranslationService.loadRegisterPreference(userPreference).then(setRegister);
+  }, [userPreference]);
+
   const loadUserPreference = async () => {
     try {
       const preference = await optimizedTranslationService.loadUserPreference();
@@ -100,12 +112,29 @@ export default function App() {
     }
   };
 
+  const handleRegisterSelect = async (selected: TranslationRegister) => {
+    setRegister(selected);
+    await optimizedTranslationService.saveRegisterPreference(userPreference, selected);
+  };
+
+  const handleDigitStyleSelect = async (selected: DigitStyle) => {
+    setDigitStyle(selected);
+    await optimizedTranslationService.saveDigitPreference(selected);
+  };
+
+  // "123" in ASCII or the selected language's own digits
+  const digitSample = (style: DigitStyle): string => {
+    const native = getLanguage(userPreference)?.numerals.digits;
+    return style === 'native' && native ? Array.from(native).slice(1, 4).join('') : '123';
+  };
+
   // OPTIMIZATION #6: Start recording with audio compression and auto-stop
   // Uses optimized speech service with compressed audio formats and silence detection
   const startRecording = async () => {
     try {
       setIsRecording(true);
       setTranscribedText('');
+      setRomanizedSource('');
       setTranslatedText('');
 
       // OPTIMIZATION #6: Uses compressed audio recording (AAC/Opus) with auto-stop
@@ -154,53 +183,190 @@ export default function App() {
 
   // Process audio recording (used by both manual stop and auto-stop)
   const processAudioRecording = async (audioUri: string) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       // OPTIMIZATION #1: Lazy load models only when needed for speech-to-text
-      const speechResult = await optimizedSpeechService.speechToText(audioUri);
+      const speechResult = await optimizedSpeechService.speechToText(audioUri, controller.signal);
       setTranscribedText(speechResult.text);
+      setRomanizedSource('');
       
       // OPTIMIZATION #7: Language detection with token limiting
-      const detected = await optimizedTranslationService.detectLanguage(speechResult.text);
+      // Close calls are confirmed by the user; only confident or confirmed results change the preference
+      const ranked = optimizedTranslationService.identifyLanguage(speechResult.text, {
+        topK: 2,
+        candidates: SUPPORTED_LANGUAGES.map(language => language.code),
+      });
+      let detected: string;
+      let isReliable = true;
+      if (ranked[0].code === UNKNOWN_LANGUAGE) {
+        detected = await optimizedTranslationService.detectLanguage(speechResult.text, controller.signal);
+        isReliable = false;
+      } else if (ranked[1] && ranked[0].probability - ranked[1].probability < LANGUAGE_CONFIRM_MARGIN) {
+        detected = await confirmLanguage(ranked, controller.signal);
+      } else {
+        detected = ranked[0].code;
+      }
+
+      // Romanized Hindi/Nepali is shown in native script so the user can confirm it;
+      // Latin script often reads as English, so the conversion's language is the source
+      const conversion = optimizedTranslationService.convertRomanizedInput(speechResult.text, detected);
+      if (conversion.converted) {
+        setTranscribedText(conversion.text);
+        setRomanizedSource(speechResult.text);
+        detected = conversion.language || detected;
+      }
       setDetectedLanguage(detected);
       
       // OPTIMIZATION #8: Auto-translate using queue processing to prevent conflicts
       if (detected === 'en') {
         // If English is detected, translate to user preference
-        await translateText(speechResult.text, 'en', userPreference);
+        await translateText(conversion.text, 'en', userPreference, controller.signal);
       } else {
         // If other language is detected, translate to English and save preference
-        await translateText(speechResult.text, detected, 'en');
-        if (detected !== userPreference) {
+        await translateText(conversion.text, detected, 'en', controller.signal);
+        if (isReliable && detected !== userPreference) {
           saveUserPreference(detected);
         }
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       console.error('Error processing audio recording:', error);
-      Alert.alert('Error', 'Failed to process recording');
+      Alert.alert('Error', isTimeoutError(error) ? `${error.message}. Please try again.` : 'Failed to process recording');
     }
   };
 
-  // OPTIMIZATION #7, #10: Translation with token limiting and smart caching
-  // Limits tokens to 256 max and uses priority-based caching for performance
-  const translateText = async (text: string, fromLang: string, toLang: string) => {
+  // Let the user choose between languages the identifier could not separate; rejects
+  // with AbortError when the picker is dismissed or the pipeline is cancelled
+  const confirmLanguage = (candidates: LanguageCandidate[], signal: AbortSignal): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new AbortError());
+        return;
+      }
+
+      const settle = () => {
+        signal.removeEventListener('abort', onAbort);
+        languageChoiceRef.current = null;
+        setLanguageChoices(null);
+      };
+      const onAbort = () => {
+        settle();
+        reject(new AbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      languageChoiceRef.current = {
+        resolve: (code) => {
+          settle();
+          resolve(code);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      };
+      setLanguageChoices(candidates);
+    });
+  };
+
+  // OPTIMIZATION #4, #7, #10: Streaming translation with token limiting and smart caching
+  // Renders tokens in the translated card as they arrive; cache hits arrive as one chunk
+  // A single generation by default; thorough adds the back-translation score and ranked alternatives
+  const translateText = async (text: string, fromLang: string, toLang: string, signal?: AbortSignal, thorough = false) => {
     setIsLoading(true);
+    setTranslatedLanguage(toLang);
+    setTranslationQuality(null);
+    setAlternatives([]);
+    setAlternativeIndex(0);
+    setPivotInfo(null);
     try {
       // OPTIMIZATION #7: Token limiting (max 256) and OPTIMIZATION #10: Smart caching
-      const result = await optimizedTranslationService.translateText({
-        text,
-        fromLang,
-        toLang,
-      });
+      const request: TranslationRequest = thorough
+        ? { text, fromLang, toLang, qualityEstimation: true, alternatives: 3 }
+        : { text, fromLang, toLang };
+      lastRequestRef.current = request;
+      const result = await optimizedTranslationService.translateTextStream(
+        request,
+        (chunk) => setTranslatedText(chunk.partialText),
+        signal
+      );
       
       setTranslatedText(result.translatedText);
+      setAlternatives(result.alternatives || []);
+      if (result.pivotLanguage && result.intermediateText) {
+        setPivotInfo({ language: result.pivotLanguage, text: result.intermediateText });
+      }
+      const outputProblems = (result.validationWarnings || []).map(warning => warning.message);
+      setTranslationQuality({ confidence: result.confidence, reasons: [...(result.qualityReasons || []), ...outputProblems] });
     } catch (error) {
+      // Cancelled by the user: keep whatever was already streamed
+      if (isAbortError(error)) {
+        return;
+      }
       console.error('Translation error:', error);
-      setTranslatedText('Translation failed. Please try again.');
+      // Timeouts say which step was too slow (model load, generation or waiting in the queue)
+      setTranslatedText(isTimeoutError(error) ? `${error.message}. Please try again.` : 'Translation failed. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Stop the current translation; queued model work for it is dropped
+  const cancelTranslation = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  };
+
+  // Translate the text on screen again with quality estimation and alternatives to tap through
+  const showMoreTranslations = async () => {
+    const request = lastRequestRef.current;
+    if (!request) {
+      return;
+    }
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    await translateText(request.text, request.fromLang, request.toLang, controller.signal, true);
+  };
+
+  // Step through the ranked candidates for the current translation
+  const showAlternative = (step: number) => {
+    if (alternatives.length < 2) {
+      return;
+    }
+    const index = (alternativeIndex + step + alternatives.length) % alternatives.length;
+    setAlternativeIndex(index);
+    setTranslatedText(alternatives[index].text);
+  };
+
+  // Remember the candidate on screen as the preferred translation
+  const pinAlternative = async () => {
+    const request = lastRequestRef.current;
+    const candidate = alternatives[alternativeIndex];
+    if (!request || !candidate) {
+      return;
+    }
+
+    try {
+      await optimizedTranslationService.pinAlternative(request, candidate.text);
+      const reordered = [
+        { ...candidate, pinned: true },
+        ...alternatives.filter((_, index) => index !== alternativeIndex).map(other => ({ ...other, pinned: false })),
+      ];
+      setAlternatives(reordered);
+      setAlternativeIndex(0);
+    } catch (error) {
+      console.error('Error pinning translation:', error);
+      Alert.alert('Error', 'Failed to save preferred translation');
+    }
+  };
+
   // OPTIMIZATION #4, #5: Text-to-speech with streaming and compact model
   // Uses streaming TTS for progressive output and compact Indic Parler-TTS Mini model
   const speakText = async (text: string, language: string) => {
@@ -220,9 +386,12 @@ export default function App() {
   };
 
   const getLanguageName = (code: string) => {
-    return SUPPORTED_LANGUAGES.find(lang => lang.code === code)?.name || code;
+    return getLanguage(code)?.name || code;
   };
 
+  // Right-to-left languages (Urdu, Sindhi) need the text direction set explicitly
+  const textDirection = (code: string) => ({ writingDirection: getLanguage(code)?.direction || 'ltr' } as const);
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="dark" />
@@ -244,6 +413,42 @@ export default function App() {
         </TouchableOpacity>
       </LinearGradient>
 
+      {/* Language confirmation for close identifier guesses */}
+      <Modal
+        visible={languageChoices !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => languageChoiceRef.current?.reject(new AbortError())}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Which language is this?</Text>
+              <TouchableOpacity
+                onPress={() => languageChoiceRef.current?.reject(new AbortError())}
+                style={styles.closeButton}
+              >
+                <Ionicons name="close" size={24} color="#333" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.languageChoiceText}>
+              The spoken language could not be identified with confidence.
+            </Text>
+            {(languageChoices || []).map((candidate) => (
+              <TouchableOpacity
+                key={candidate.code}
+                style={styles.modalLanguageItem}
+                onPress={() => languageChoiceRef.current?.resolve(candidate.code)}
+              >
+                <Text style={styles.modalLanguageNativeName}>
+                  {getLanguageName(candidate.code)} ({Math.round(candidate.probability * 100)}%)
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
+
       {/* Language Modal */}
       <Modal
         visible={showLanguageModal}
@@ -262,6 +467,40 @@ export default function App() {
                 <Ionicons name="close" size={24} color="#333" />
               </TouchableOpacity>
             </View>
+            <View style={styles.registerSection}>
+              <Text style={styles.registerTitle}>
+                Register for {getLanguageName(userPreference)}
+              </Text>
+              <View style={styles.registerOptions}>
+                {TRANSLATION_REGISTERS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.registerOption, register === option && styles.selectedRegisterOption]}
+                    onPress={() => handleRegisterSelect(option)}
+                  >
+                    <Text style={[styles.registerOptionText, register === option && styles.selectedRegisterOptionText]}>
+                      {option.charAt(0).toUpperCase() + option.slice(1)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            <View style={styles.registerSection}>
+              <Text style={styles.registerTitle}>Digits in translations</Text>
+              <View style={styles.registerOptions}>
+                {DIGIT_STYLES.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.registerOption, digitStyle === option && styles.selectedRegisterOption]}
+                    onPress={() => handleDigitStyleSelect(option)}
+                  >
+                    <Text style={[styles.registerOptionText, digitStyle === option && styles.selectedRegisterOptionText]}>
+                      {option === 'native' ? 'Native' : 'ASCII'} ({digitSample(option)})
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
             <ScrollView style={styles.modalLanguageList} showsVerticalScrollIndicator={false}>
               {SUPPORTED_LANGUAGES.map((language) => (
                 <TouchableOpacity
@@ -345,7 +584,10 @@ export default function App() {
                 <Ionicons name="volume-high" size={20} color="#667eea" />
               </TouchableOpacity>
             </View>
-            <Text style={styles.transcribedText}>{transcribedText}</Text>
+            <Text style={[styles.transcribedText, textDirection(detectedLanguage)]}>{transcribedText}</Text>
+            {romanizedSource ? (
+              <Text style={styles.noteText}>Converted from: {romanizedSource}</Text>
+            ) : null}
           </View>
         )}
 
@@ -354,16 +596,60 @@ export default function App() {
           <View style={styles.textCard}>
             <View style={styles.cardHeader}>
               <Text style={styles.cardTitle}>
-                Translated to: {getLanguageName(userPreference)}
+                Translated to: {getLanguageName(translatedLanguage)}
               </Text>
               <TouchableOpacity
-                onPress={() => speakText(translatedText, userPreference)}
+                onPress={() => speakText(translatedText, translatedLanguage)}
                 style={styles.speakButton}
               >
                 <Ionicons name="volume-high" size={20} color="#667eea" />
               </TouchableOpacity>
             </View>
-            <Text style={styles.translatedText}>{translatedText}</Text>
+            <Text style={[styles.translatedText, textDirection(translatedLanguage)]}>{translatedText}</Text>
+            {pivotInfo ? (
+              <Text style={styles.noteText}>
+                Via {getLanguageName(pivotInfo.language)}: {pivotInfo.text}
+              </Text>
+            ) : null}
+            {!isLoading && !lastRequestRef.current?.alternatives && (
+              <TouchableOpacity onPress={showMoreTranslations} style={styles.alternativesRow}>
+                <Ionicons name="layers-outline" size={18} color="#667eea" />
+                <Text style={styles.alternativesText}>More translations</Text>
+              </TouchableOpacity>
+            )}
+            {alternatives.length > 1 && (
+              <View style={styles.alternativesRow}>
+                <TouchableOpacity onPress={() => showAlternative(-1)} style={styles.alternativeButton}>
+                  <Ionicons name="chevron-back" size={20} color="#667eea" />
+                </TouchableOpacity>
+                <Text style={styles.alternativesText}>
+                  {alternativeIndex + 1} / {alternatives.length}
+                </Text>
+                <TouchableOpacity onPress={() => showAlternative(1)} style={styles.alternativeButton}>
+                  <Ionicons name="chevron-forward" size={20} color="#667eea" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={pinAlternative} style={styles.alternativeButton}>
+                  <Ionicons
+                    name={alternatives[alternativeIndex]?.pinned ? 'pin' : 'pin-outline'}
+                    size={18}
+                    color="#667eea"
+                  />
+                </TouchableOpacity>
+              </View>
+            )}
+            {alternativeIndex === 0 && translationQuality && translationQuality.confidence < QUALITY_CONFIG.lowConfidenceThreshold && (
+              <View style={styles.qualityWarning}>
+                <View style={styles.qualityWarningHeader}>
+                  <Ionicons name="warning" size={16} color="#e67e22" />
+                  <Text style={styles.qualityWarningTitle}>
+                    Low confidence ({Math.round(translationQuality.confidence * 100)}%)
+                  </Text>
+                </View>
+                {translationQuality.reasons.map((reason) => (
+                  <Text key={reason} style={styles.qualityWarningText}>• {reason}</Text>
+                ))}
+              </View>
+            )}
           </View>
         )}
 
@@ -371,6 +657,10 @@ export default function App() {
         {isLoading && (
           <View style={styles.loadingContainer}>
             <Text style={styles.loadingText}>Translating...</Text>
+            <TouchableOpacity onPress={cancelTranslation} style={styles.cancelButton}>
+              <Ionicons name="close-circle" size={18} color="#ff6b6b" />
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
           </View>
         )}
       </ScrollView>
@@ -477,12 +767,54 @@ const styles = StyleSheet.create({
     color: '#333',
     lineHeight: 24,
   },
+  noteText: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 6,
+    fontStyle: 'italic',
+  },
   translatedText: {
     fontSize: 18,
     color: '#333',
     lineHeight: 24,
     fontWeight: '500',
   },
+  alternativesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 10,
+  },
+  alternativeButton: {
+    padding: 5,
+  },
+  alternativesText: {
+    fontSize: 14,
+    color: '#667eea',
+    fontWeight: '600',
+    marginHorizontal: 10,
+  },
+  qualityWarning: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#fff4e5',
+  },
+  qualityWarningHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  qualityWarningTitle: {
+    fontSize: 14,
+    color: '#e67e22',
+    fontWeight: '600',
+    marginLeft: 5,
+  },
+  qualityWarningText: {
+    fontSize: 13,
+    color: '#8a5a00',
+    marginTop: 4,
+  },
   loadingContainer: {
     alignItems: 'center',
     padding: 20,
@@ -492,6 +824,21 @@ const styles = StyleSheet.create({
     color: '#667eea',
     fontWeight: '600',
   },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    paddingHorizontal: 15,
+    paddingVertical: 6,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: '#ff6b6b',
+  },
+  cancelButtonText: {
+    color: '#ff6b6b',
+    fontWeight: '600',
+    marginLeft: 5,
+  },
   autoStopText: {
     fontSize: 12,
     color: '#ff6b6b',
@@ -525,6 +872,47 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#f0f0f0',
   },
+  registerSection: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  registerTitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  registerOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  registerOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: '#667eea',
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  selectedRegisterOption: {
+    backgroundColor: '#667eea',
+  },
+  registerOptionText: {
+    fontSize: 13,
+    color: '#667eea',
+  },
+  selectedRegisterOptionText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  languageChoiceText: {
+    fontSize: 14,
+    color: '#666',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
   modalTitle: {
     fontSize: 20,
     fontWeight: 'bold',
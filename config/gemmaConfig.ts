@@ -1,5 +1,7 @@
 // Configuration for Gemma 3n Model Integration
 
+import { SUPPORTED_LANGUAGES, getLanguage } from './languageRegistry';
+
 export interface GemmaConfig {
   modelName: string;
   modelPath: string;
@@ -25,115 +27,138 @@ export const DEFAULT_GEMMA_CONFIG: GemmaConfig = {
   enableOfflineMode: true,
 };
 
-// Language-specific configurations
-export const LANGUAGE_CONFIGS = {
-  'en': {
-    temperature: 0.7,
-    maxTokens: 256,
-  },
-  'hi': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'ne': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'es': {
-    temperature: 0.7,
-    maxTokens: 256,
-  },
-  'fr': {
-    temperature: 0.7,
-    maxTokens: 256,
-  },
-  'de': {
-    temperature: 0.7,
-    maxTokens: 256,
-  },
-  'it': {
-    temperature: 0.7,
-    maxTokens: 256,
-  },
-  'pt': {
-    temperature: 0.7,
-    maxTokens: 256,
-  },
-  'ru': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'ja': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'ko': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'zh': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'ar': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'bn': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-  'ur': {
-    temperature: 0.8,
-    maxTokens: 512,
-  },
-};
-
-// Translation prompts for different language pairs
-export const TRANSLATION_PROMPTS = {
-  // English to other languages
-  'en-hi': 'Translate the following English text to Hindi. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nHindi:',
-  'en-ne': 'Translate the following English text to Nepali. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nNepali:',
-  'en-es': 'Translate the following English text to Spanish. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nSpanish:',
-  'en-fr': 'Translate the following English text to French. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nFrench:',
-  'en-de': 'Translate the following English text to German. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nGerman:',
-  'en-it': 'Translate the following English text to Italian. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nItalian:',
-  'en-pt': 'Translate the following English text to Portuguese. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nPortuguese:',
-  'en-ru': 'Translate the following English text to Russian. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nRussian:',
-  'en-ja': 'Translate the following English text to Japanese. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nJapanese:',
-  'en-ko': 'Translate the following English text to Korean. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nKorean:',
-  'en-zh': 'Translate the following English text to Chinese. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nChinese:',
-  'en-ar': 'Translate the following English text to Arabic. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nArabic:',
-  'en-bn': 'Translate the following English text to Bengali. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nBengali:',
-  'en-ur': 'Translate the following English text to Urdu. Provide only the translation without any additional text:\n\nEnglish: "{text}"\n\nUrdu:',
-
-  // Hindi to other languages
-  'hi-en': 'Translate the following Hindi text to English. Provide only the translation without any additional text:\n\nHindi: "{text}"\n\nEnglish:',
-  'hi-ne': 'Translate the following Hindi text to Nepali. Provide only the translation without any additional text:\n\nHindi: "{text}"\n\nNepali:',
-  'hi-es': 'Translate the following Hindi text to Spanish. Provide only the translation without any additional text:\n\nHindi: "{text}"\n\nSpanish:',
-  'hi-fr': 'Translate the following Hindi text to French. Provide only the translation without any additional text:\n\nHindi: "{text}"\n\nFrench:',
-
-  // Nepali to other languages
-  'ne-en': 'Translate the following Nepali text to English. Provide only the translation without any additional text:\n\nNepali: "{text}"\n\nEnglish:',
-  'ne-hi': 'Translate the following Nepali text to Hindi. Provide only the translation without any additional text:\n\nNepali: "{text}"\n\nHindi:',
-  'ne-es': 'Translate the following Nepali text to Spanish. Provide only the translation without any additional text:\n\nNepali: "{text}"\n\nSpanish:',
-  'ne-fr': 'Translate the following Nepali text to French. Provide only the translation without any additional text:\n\nNepali: "{text}"\n\nFrench:',
-
-  // Add more language pairs as needed...
+// Inference engine selection
+export interface EngineConfig {
+  type: 'http' | 'fixture';
+  baseUrl: string; // llama.cpp server or Ollama endpoint
+  flavor: 'llamacpp' | 'ollama';
+  model: string; // Model name sent to Ollama (ignored by llama.cpp)
+  requestTimeout: number; // ms
+  fixtureTokenDelay: number; // ms between streamed tokens for the fixture engine
+}
+
+// Default engine: a local llama.cpp server; falls back to the fixture engine
+// when ERROR_CONFIG.fallbackToMock is set and the server is unreachable
+export const ENGINE_CONFIG: EngineConfig = {
+  type: 'http',
+  baseUrl: 'http://127.0.0.1:8080',
+  flavor: 'llamacpp',
+  model: 'gemma3n:e2b',
+  requestTimeout: 30000,
+  fixtureTokenDelay: 20,
+};
+
+// Translation prompt; {from} and {to} are the registry prompt names of the languages
+export const TRANSLATION_PROMPT_TEMPLATE = 'Translate the following {from} text to {to}. Provide only the translation without any additional text:\n\n{from}: "{text}"\n\n{to}:';
+
+// Few-shot prompt packs (see services/promptPackService.ts)
+export const PROMPT_PACK_CONFIG = {
+  exampleTokenBudget: 160, // Prompt tokens the pack examples may use
+  defaultDomain: 'general', // Domain used when a request names none, or its domain has no entry
+  userDirectory: 'promptPacks/', // Under the app's document directory; *.json files there override built-ins
+};
+
+// Subtitle file translation (see services/subtitleService.ts)
+export const SUBTITLE_CONFIG = {
+  maxCharsPerLine: 42, // Translated cue text is re-wrapped to this many characters per line
+  maxMergedCues: 4, // Cues joined into one sentence for context, at most
+  maxMergeGapMs: 1500, // Cues further apart than this are never joined
+  outputDirectory: 'subtitles/', // Under the app's document directory
+};
+
+// Localization resource file translation (see services/localizationService.ts)
+export const LOCALIZATION_CONFIG = {
+  outputDirectory: 'localization/', // Under the app's document directory; one subfolder per target language
+};
+
+// How a language pair is translated: directly, or in two legs through English or Hindi
+export type PivotPolicy = 'direct' | 'en' | 'hi';
+
+// Per-pair routing; "xx-*" and "*-xx" cover every pair from or to a language.
+// Exact pairs win over source wildcards, which win over target wildcards
+export const PIVOT_ROUTES: { [pair: string]: PivotPolicy } = {
+  // Little parallel data with other Indic languages: go through English
+  'sat-*': 'en',
+  '*-sat': 'en',
+  'mni-*': 'en',
+  '*-mni': 'en',
+  // Devanagari languages close to Hindi translate best through it
+  'mai-*': 'hi',
+  '*-mai': 'hi',
+  'doi-*': 'hi',
+  '*-doi': 'hi',
+  'brx-*': 'hi',
+  '*-brx': 'hi',
+};
+
+// Instruction placed before glossary terms in a translation prompt
+export const GLOSSARY_PROMPT_PREFIX = 'Always translate these terms exactly as given:';
+
+// Instruction placed before translation memory examples in a translation prompt
+export const EXAMPLES_PROMPT_PREFIX = 'Follow the style of these approved translations of similar text:';
+
+// Instruction placed before the English terms of code-mixed (Hinglish/Nepanglish) input
+export const CODE_MIXED_PROMPT_PREFIX = 'The text mixes {language} with English. Translate all of it, but keep these English terms exactly as written:';
+
+// Instruction placed before a prompt whose numbers, dates, links, placeholders or code were replaced by markers
+export const PROTECTED_MARKERS_PROMPT = 'Markers such as ⟦N1⟧ and ⟦P1⟧ stand for numbers, dates, links, placeholders and code. Copy every marker into the translation exactly as written.';
+
+// Digits used for numbers in translated output: ASCII 0-9 or the target script's own
+export type DigitStyle = 'ascii' | 'native';
+
+export const DIGIT_STYLES: DigitStyle[] = ['ascii', 'native'];
+
+// Most Indian-language text online uses ASCII digits
+export const DEFAULT_DIGIT_STYLE: DigitStyle = 'ascii';
+
+// Respect level requested for the translation
+export type TranslationRegister = 'informal' | 'neutral' | 'formal' | 'honorific';
+
+export const TRANSLATION_REGISTERS: TranslationRegister[] = ['informal', 'neutral', 'formal', 'honorific'];
+
+// Register used when neither the request nor the user's settings choose one
+export const DEFAULT_REGISTER: TranslationRegister = 'neutral';
+
+// Register instructions placed before a translation prompt
+export const REGISTER_PROMPTS: { [register in TranslationRegister]: string } = {
+  informal: 'Use an informal, familiar register, as between close friends or family.',
+  neutral: 'Use a neutral, polite register, suitable for speaking with strangers.',
+  formal: 'Use a formal register, as in official or professional communication.',
+  honorific: 'Use the most respectful honorific register, as when addressing elders or dignitaries.',
 };
 
 // Language detection prompts
 export const LANGUAGE_DETECTION_PROMPTS = {
-  general: 'Detect the language of the following text and respond with only the language code (en, hi, ne, es, fr, de, it, pt, ru, ja, ko, zh, ar, bn, ur):\n\nText: "{text}"\n\nLanguage code:',
+  general: `Detect the language of the following text and respond with only the language code (${SUPPORTED_LANGUAGES.map(language => language.code).join(', ')}):\n\nText: "{text}"\n\nLanguage code:`,
   
   // Specific prompts for better accuracy
   'en-hi-ne': 'Is this text in English, Hindi, or Nepali? Respond with only the language code (en, hi, ne):\n\nText: "{text}"\n\nLanguage code:',
-  
-  'asian-languages': 'Is this text in Japanese, Korean, or Chinese? Respond with only the language code (ja, ko, zh):\n\nText: "{text}"\n\nLanguage code:',
-  
-  'european-languages': 'Is this text in Spanish, French, German, Italian, or Portuguese? Respond with only the language code (es, fr, de, it, pt):\n\nText: "{text}"\n\nLanguage code:',
 };
 
+// Quality estimation thresholds for translated output
+export const QUALITY_CONFIG = {
+  unverifiedConfidence: 0.85, // Starting score when no back-translation was made
+  goodSimilarity: 0.6, // Back-translation chrF treated as full confidence
+  lowSimilarity: 0.35, // Back-translation chrF reported as a problem
+  minLengthRatio: 0.3, // Output/source character ratio bounds
+  maxLengthRatio: 3,
+  minScriptRatio: 0.8, // Share of letters that must be in the target script
+  lowConfidenceThreshold: 0.5, // UI warns below this
+};
+
+// Checks on raw model output before it reaches the user (see utils/outputValidation.ts)
+export const VALIDATION_CONFIG = {
+  minLanguageLetters: 20, // Shorter output is too short to identify reliably
+  wrongLanguageConfidence: 0.9, // Identifier probability needed to call the output the wrong language
+  minRatioSourceLength: 12, // Length ratio is only checked for sources at least this long (characters)
+  retryTemperatureStep: 0.2, // Each retry samples this much cooler...
+  minRetryTemperature: 0.2, // ...down to this floor, with a fresh seed
+  failedConfidence: 0.4, // Confidence of output that still fails after every retry
+};
+
+// AsyncStorage prefix for persisted translations; every cache clear path uses it
+export const TRANSLATION_CACHE_PREFIX = 'translation_cache_';
+
 // Performance optimization settings
 export const PERFORMANCE_CONFIG = {
   // Cache settings
@@ -146,7 +171,8 @@ export const PERFORMANCE_CONFIG = {
   
   // Translation settings
   maxConcurrentTranslations: 3,
-  translationTimeout: 10000, // 10 seconds
+  translationTimeout: 10000, // 10 seconds per engine call (generation or streamed segment)
+  queueWaitTimeout: 60000, // 1 minute waiting behind other model work before giving up
   
   // Memory management
   maxMemoryUsage: 512, // MB
@@ -164,16 +190,110 @@ export const ERROR_CONFIG = {
 
 // Export utility functions
 export const getLanguageConfig = (languageCode: string) => {
-  return LANGUAGE_CONFIGS[languageCode as keyof typeof LANGUAGE_CONFIGS] || {
+  return getLanguage(languageCode)?.sampling || {
     temperature: 0.7,
     maxTokens: 256,
   };
 };
 
-export const getTranslationPrompt = (fromLang: string, toLang: string) => {
-  const key = `${fromLang}-${toLang}`;
-  return TRANSLATION_PROMPTS[key as keyof typeof TRANSLATION_PROMPTS] || 
-         `Translate the following text from ${fromLang} to ${toLang}. Provide only the translation:\n\nOriginal: "{text}"\n\nTranslation:`;
+// Sampling parameters for a language, layered over the model defaults
+export const getSamplingConfig = (languageCode: string) => {
+  const languageConfig = getLanguageConfig(languageCode);
+  return {
+    temperature: languageConfig.temperature,
+    topP: DEFAULT_GEMMA_CONFIG.topP,
+    topK: DEFAULT_GEMMA_CONFIG.topK,
+    maxTokens: Math.min(languageConfig.maxTokens, DEFAULT_GEMMA_CONFIG.maxTokens),
+  };
+};
+
+// Prompt pack material for a pair: a system instruction and curated example pairs in priority order
+export interface PromptPackContent {
+  system: string;
+  examples: Array<{ source: string; target: string }>;
+}
+
+// Translation prompt for a pair, led by the pack's system instruction and as many
+// of its examples as fit the token budget
+export const getTranslationPrompt = (
+  fromLang: string,
+  toLang: string,
+  pack?: PromptPackContent,
+  exampleTokenBudget: number = PROMPT_PACK_CONFIG.exampleTokenBudget
+) => {
+  const from = getLanguage(fromLang)?.promptName;
+  const to = getLanguage(toLang)?.promptName;
+  const prompt = from && to
+    ? TRANSLATION_PROMPT_TEMPLATE.replace(/\{from\}/g, from).replace(/\{to\}/g, to)
+    : `Translate the following text from ${fromLang} to ${toLang}. Provide only the translation:\n\nOriginal: "{text}"\n\nTranslation:`;
+  if (!pack) {
+    return prompt;
+  }
+
+  // Examples use the same labels as the final question so the model continues the pattern
+  const shots: string[] = [];
+  let tokens = 0;
+  for (const example of pack.examples) {
+    const shot = `${from || 'Original'}: ${example.source}\n${to || 'Translation'}: ${example.target}`;
+    tokens += Math.ceil(shot.length / 4); // Rough estimation: 1 token ≈ 4 characters
+    if (tokens > exampleTokenBudget) {
+      break;
+    }
+    shots.push(shot);
+  }
+
+  return [pack.system, ...shots, prompt].filter(part => part.length > 0).join('\n\n');
+};
+
+// Route for a language pair; pairs that include the pivot language are always direct
+export const getPivotPolicy = (fromLang: string, toLang: string, override?: PivotPolicy): PivotPolicy => {
+  const policy = override
+    || PIVOT_ROUTES[`${fromLang}-${toLang}`]
+    || PIVOT_ROUTES[`${fromLang}-*`]
+    || PIVOT_ROUTES[`*-${toLang}`]
+    || 'direct';
+  return policy === fromLang || policy === toLang || fromLang === toLang ? 'direct' : policy;
+};
+
+// Prepend required terminology to a translation prompt
+export const applyGlossaryToPrompt = (prompt: string, terms: Array<{ source: string; target: string }>) => {
+  if (terms.length === 0) {
+    return prompt;
+  }
+  const lines = terms.map(term => `- ${term.source} → ${term.target}`).join('\n');
+  return `${GLOSSARY_PROMPT_PREFIX}\n${lines}\n\n${prompt}`;
+};
+
+// Prepend approved example translations to a translation prompt
+export const applyExamplesToPrompt = (prompt: string, examples: Array<{ source: string; target: string }>) => {
+  if (examples.length === 0) {
+    return prompt;
+  }
+  const pairs = examples.map(example => `Source: ${example.source}\nTarget: ${example.target}`).join('\n\n');
+  return `${EXAMPLES_PROMPT_PREFIX}\n\n${pairs}\n\n${prompt}`;
+};
+
+// Prepend the register instruction (and language-specific pronoun guidance) to a translation prompt
+export const applyRegisterToPrompt = (prompt: string, register: TranslationRegister, languageCode: string) => {
+  const instruction = REGISTER_PROMPTS[register];
+  const hint = getLanguage(languageCode)?.registerHints?.[register];
+  return `${hint ? `${instruction} ${hint}` : instruction}\n\n${prompt}`;
+};
+
+// Prepend the marker instruction when any part of the source was protected
+export const applyMarkersToPrompt = (prompt: string, markerCount: number) => {
+  return markerCount > 0 ? `${PROTECTED_MARKERS_PROMPT}\n\n${prompt}` : prompt;
+};
+
+// Prepend the code-mixing instruction so the user's English terms survive translation
+export const applyCodeMixedToPrompt = (prompt: string, languageCode: string, englishTerms: string[]) => {
+  if (englishTerms.length === 0) {
+    return prompt;
+  }
+  const prefix = CODE_MIXED_PROMPT_PREFIX.replace('{language}', getLanguage(languageCode)?.promptName || languageCode);
+  return `${prefix} ${englishTerms.join(', ')}
+
+${prompt}`;
 };
 
 export const getLanguageDetectionPrompt = (text: string, category: keyof typeof LANGUAGE_DETECTION_PROMPTS = 'general') => {
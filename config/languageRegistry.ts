@@ -0,0 +1,457 @@
+// Single source of truth for the languages the app supports
+
+import type { TranslationRegister } from './gemmaConfig';
+import { LANGUAGE_PROFILES, LanguageProfile } from '../utils/languageProfiles';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LanguageSampling {
+  temperature: number;
+  maxTokens: number;
+}
+
+export type NumberGrouping = 'indian' | 'western'; // 15,00,000 or 1,500,000
+export type DateOrder = 'dmy' | 'mdy';
+
+// How numbers and dates are written in a language
+export interface NumeralConventions {
+  digits?: string; // Native digits 0-9, used when the user prefers them over ASCII
+  grouping: NumberGrouping;
+  dateOrder: DateOrder; // Also how numeric dates in source text are read
+  months?: string[]; // January to December; dates stay numeric when absent
+}
+
+export interface LanguageDefinition {
+  code: string; // ISO 639 code used everywhere in the app
+  name: string; // English name shown in the UI
+  nativeName: string; // Name in the language itself
+  promptName: string; // Name used in translation prompts
+  scripts: string[]; // Unicode scripts a translation into the language is expected to use
+  direction: TextDirection;
+  sampling: LanguageSampling; // Generation settings when translating from the language
+  ttsLocale: string; // BCP 47 locale passed to the speech engine
+  pluralForms: string; // gettext Plural-Forms header (CLDR rules for whole numbers)
+  numerals: NumeralConventions;
+  detectionProfile?: LanguageProfile; // Offline identifier profile; required by validateLanguageRegistry
+  registerHints?: { [register in TranslationRegister]?: string }; // Pronoun and verb guidance per register
+}
+
+const ENGLISH_SAMPLING: LanguageSampling = { temperature: 0.7, maxTokens: 256 };
+
+// Indic scripts need more tokens per word and benefit from a little more variety
+const INDIC_SAMPLING: LanguageSampling = { temperature: 0.8, maxTokens: 512 };
+
+const profile = (code: string) => LANGUAGE_PROFILES.find(candidate => candidate.code === code);
+
+// Ten consecutive digits starting at the script's zero
+const digitsFrom = (zero: number) => Array.from({ length: 10 }, (_, value) => String.fromCodePoint(zero + value)).join('');
+
+const DEVANAGARI_DIGITS = digitsFrom(0x0966);
+const BENGALI_DIGITS = digitsFrom(0x09e6);
+
+// Indian languages group by lakh and crore and write the day first
+const indianNumerals = (digits: string, months?: string[]): NumeralConventions => {
+  return { digits, grouping: 'indian', dateOrder: 'dmy', months };
+};
+
+// Languages supported by both Gemma 3n and Indic Parler-TTS Mini, sorted by code
+export const SUPPORTED_LANGUAGES: LanguageDefinition[] = [
+  {
+    code: 'as',
+    name: 'Assamese',
+    nativeName: 'অসমীয়া',
+    promptName: 'Assamese',
+    scripts: ['Bengali'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'as-IN',
+    pluralForms: 'nplurals=2; plural=(n > 1);',
+    numerals: indianNumerals(BENGALI_DIGITS, ['জানুৱাৰী', 'ফেব্ৰুৱাৰী', 'মাৰ্চ', 'এপ্ৰিল', 'মে', 'জুন', 'জুলাই', 'আগষ্ট', 'ছেপ্তেম্বৰ', 'অক্টোবৰ', 'নৱেম্বৰ', 'ডিচেম্বৰ']),
+    detectionProfile: profile('as'),
+  },
+  {
+    code: 'bn',
+    name: 'Bengali',
+    nativeName: 'বাংলা',
+    promptName: 'Bengali',
+    scripts: ['Bengali'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'bn-IN',
+    pluralForms: 'nplurals=2; plural=(n > 1);',
+    numerals: indianNumerals(BENGALI_DIGITS, ['জানুয়ারী', 'ফেব্রুয়ারী', 'মার্চ', 'এপ্রিল', 'মে', 'জুন', 'জুলাই', 'আগস্ট', 'সেপ্টেম্বর', 'অক্টোবর', 'নভেম্বর', 'ডিসেম্বর']),
+    detectionProfile: profile('bn'),
+    registerHints: {
+      informal: 'Address the listener as "তুই" or "তুমি" with matching verb forms.',
+      neutral: 'Address the listener as "আপনি".',
+      formal: 'Address the listener as "আপনি" and prefer formal vocabulary.',
+      honorific: 'Address the listener as "আপনি" with honorifics where natural.',
+    },
+  },
+  {
+    code: 'brx',
+    name: 'Bodo',
+    nativeName: 'बड़ो',
+    promptName: 'Bodo',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'brx-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS),
+    detectionProfile: profile('brx'),
+  },
+  {
+    code: 'doi',
+    name: 'Dogri',
+    nativeName: 'डोगरी',
+    promptName: 'Dogri',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'doi-IN',
+    pluralForms: 'nplurals=2; plural=(n > 1);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS),
+    detectionProfile: profile('doi'),
+  },
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    promptName: 'English',
+    scripts: ['Latin'],
+    direction: 'ltr',
+    sampling: ENGLISH_SAMPLING,
+    ttsLocale: 'en-US',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: {
+      grouping: 'western',
+      dateOrder: 'dmy', // Indian English
+      months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    },
+    detectionProfile: profile('en'),
+  },
+  {
+    code: 'gu',
+    name: 'Gujarati',
+    nativeName: 'ગુજરાતી',
+    promptName: 'Gujarati',
+    scripts: ['Gujarati'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'gu-IN',
+    pluralForms: 'nplurals=2; plural=(n > 1);',
+    numerals: indianNumerals(digitsFrom(0x0ae6), ['જાન્યુઆરી', 'ફેબ્રુઆરી', 'માર્ચ', 'એપ્રિલ', 'મે', 'જૂન', 'જુલાઈ', 'ઑગસ્ટ', 'સપ્ટેમ્બર', 'ઑક્ટોબર', 'નવેમ્બર', 'ડિસેમ્બર']),
+    detectionProfile: profile('gu'),
+    registerHints: {
+      informal: 'Address the listener as "તું" with matching verb forms.',
+      neutral: 'Address the listener as "તમે".',
+      honorific: 'Address the listener as "આપ" with respectful verb forms.',
+    },
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    promptName: 'Hindi',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'hi-IN',
+    pluralForms: 'nplurals=2; plural=(n > 1);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS, ['जनवरी', 'फ़रवरी', 'मार्च', 'अप्रैल', 'मई', 'जून', 'जुलाई', 'अगस्त', 'सितंबर', 'अक्तूबर', 'नवंबर', 'दिसंबर']),
+    detectionProfile: profile('hi'),
+    registerHints: {
+      informal: 'Address the listener as "तू" or "तुम" with matching verb forms.',
+      neutral: 'Address the listener as "आप".',
+      formal: 'Address the listener as "आप" and prefer formal vocabulary.',
+      honorific: 'Address the listener as "आप" and add honorifics such as "जी" where natural.',
+    },
+  },
+  {
+    code: 'kn',
+    name: 'Kannada',
+    nativeName: 'ಕನ್ನಡ',
+    promptName: 'Kannada',
+    scripts: ['Kannada'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'kn-IN',
+    pluralForms: 'nplurals=2; plural=(n > 1);',
+    numerals: indianNumerals(digitsFrom(0x0ce6), ['ಜನವರಿ', 'ಫೆಬ್ರವರಿ', 'ಮಾರ್ಚ್', 'ಏಪ್ರಿಲ್', 'ಮೇ', 'ಜೂನ್', 'ಜುಲೈ', 'ಆಗಸ್ಟ್', 'ಸೆಪ್ಟೆಂಬರ್', 'ಅಕ್ಟೋಬರ್', 'ನವೆಂಬರ್', 'ಡಿಸೆಂಬರ್']),
+    detectionProfile: profile('kn'),
+    registerHints: {
+      informal: 'Address the listener as "ನೀನು" with matching verb forms.',
+      neutral: 'Address the listener as "ನೀವು".',
+      honorific: 'Address the listener as "ತಾವು" with respectful verb forms.',
+    },
+  },
+  {
+    code: 'kok',
+    name: 'Konkani',
+    nativeName: 'कोंकणी',
+    promptName: 'Konkani',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'kok-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS),
+    detectionProfile: profile('kok'),
+  },
+  {
+    code: 'mai',
+    name: 'Maithili',
+    nativeName: 'मैथिली',
+    promptName: 'Maithili',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'mai-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS),
+    detectionProfile: profile('mai'),
+  },
+  {
+    code: 'ml',
+    name: 'Malayalam',
+    nativeName: 'മലയാളം',
+    promptName: 'Malayalam',
+    scripts: ['Malayalam'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'ml-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(digitsFrom(0x0d66), ['ജനുവരി', 'ഫെബ്രുവരി', 'മാർച്ച്', 'ഏപ്രിൽ', 'മേയ്', 'ജൂൺ', 'ജൂലൈ', 'ഓഗസ്റ്റ്', 'സെപ്റ്റംബർ', 'ഒക്ടോബർ', 'നവംബർ', 'ഡിസംബർ']),
+    detectionProfile: profile('ml'),
+    registerHints: {
+      informal: 'Address the listener as "നീ" with matching verb forms.',
+      neutral: 'Address the listener as "നിങ്ങൾ".',
+      honorific: 'Address the listener as "താങ്കൾ" or "അങ്ങ്" with respectful verb forms.',
+    },
+  },
+  {
+    code: 'mni',
+    name: 'Manipuri',
+    nativeName: 'মৈতৈলোন্',
+    promptName: 'Manipuri (Meitei)',
+    scripts: ['Bengali', 'Meetei_Mayek'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'mni-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(BENGALI_DIGITS),
+    detectionProfile: profile('mni'),
+  },
+  {
+    code: 'mr',
+    name: 'Marathi',
+    nativeName: 'मराठी',
+    promptName: 'Marathi',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'mr-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS, ['जानेवारी', 'फेब्रुवारी', 'मार्च', 'एप्रिल', 'मे', 'जून', 'जुलै', 'ऑगस्ट', 'सप्टेंबर', 'ऑक्टोबर', 'नोव्हेंबर', 'डिसेंबर']),
+    detectionProfile: profile('mr'),
+    registerHints: {
+      informal: 'Address the listener as "तू" with matching verb forms.',
+      neutral: 'Address the listener as "तुम्ही".',
+      formal: 'Address the listener as "तुम्ही" and prefer formal vocabulary.',
+      honorific: 'Address the listener as "आपण" with respectful verb forms.',
+    },
+  },
+  {
+    code: 'ne',
+    name: 'Nepali',
+    nativeName: 'नेपाली',
+    promptName: 'Nepali',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'ne-NP',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS, ['जनवरी', 'फेब्रुअरी', 'मार्च', 'अप्रिल', 'मे', 'जुन', 'जुलाई', 'अगस्ट', 'सेप्टेम्बर', 'अक्टोबर', 'नोभेम्बर', 'डिसेम्बर']),
+    detectionProfile: profile('ne'),
+    registerHints: {
+      informal: 'Address the listener as "तँ" or "तिमी" with matching verb forms.',
+      neutral: 'Address the listener as "तपाईं".',
+      formal: 'Address the listener as "तपाईं" and prefer formal vocabulary.',
+      honorific: 'Address the listener as "हजुर" with high-honorific verb forms.',
+    },
+  },
+  {
+    code: 'or',
+    name: 'Odia',
+    nativeName: 'ଓଡ଼ିଆ',
+    promptName: 'Odia',
+    scripts: ['Oriya'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'or-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(digitsFrom(0x0b66), ['ଜାନୁଆରୀ', 'ଫେବୃଆରୀ', 'ମାର୍ଚ୍ଚ', 'ଅପ୍ରେଲ', 'ମଇ', 'ଜୁନ', 'ଜୁଲାଇ', 'ଅଗଷ୍ଟ', 'ସେପ୍ଟେମ୍ବର', 'ଅକ୍ଟୋବର', 'ନଭେମ୍ବର', 'ଡିସେମ୍ବର']),
+    detectionProfile: profile('or'),
+  },
+  {
+    code: 'sa',
+    name: 'Sanskrit',
+    nativeName: 'संस्कृतम्',
+    promptName: 'Sanskrit',
+    scripts: ['Devanagari'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'sa-IN',
+    pluralForms: 'nplurals=3; plural=(n == 1 ? 0 : n == 2 ? 1 : 2);',
+    numerals: indianNumerals(DEVANAGARI_DIGITS),
+    detectionProfile: profile('sa'),
+  },
+  {
+    code: 'sat',
+    name: 'Santali',
+    nativeName: 'ᱥᱟᱱᱛᱟᱲᱤ',
+    promptName: 'Santali (Ol Chiki script)',
+    scripts: ['Ol_Chiki'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'sat-IN',
+    pluralForms: 'nplurals=3; plural=(n == 1 ? 0 : n == 2 ? 1 : 2);',
+    numerals: indianNumerals(digitsFrom(0x1c50)),
+    detectionProfile: profile('sat'),
+  },
+  {
+    code: 'sd',
+    name: 'Sindhi',
+    nativeName: 'سنڌي',
+    promptName: 'Sindhi',
+    scripts: ['Arabic', 'Devanagari'],
+    direction: 'rtl',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'sd-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(digitsFrom(0x0660)),
+    detectionProfile: profile('sd'),
+  },
+  {
+    code: 'ta',
+    name: 'Tamil',
+    nativeName: 'தமிழ்',
+    promptName: 'Tamil',
+    scripts: ['Tamil'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'ta-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(digitsFrom(0x0be6), ['ஜனவரி', 'பிப்ரவரி', 'மார்ச்', 'ஏப்ரல்', 'மே', 'ஜூன்', 'ஜூலை', 'ஆகஸ்ட்', 'செப்டம்பர்', 'அக்டோபர்', 'நவம்பர்', 'டிசம்பர்']),
+    detectionProfile: profile('ta'),
+    registerHints: {
+      informal: 'Address the listener as "நீ" with matching verb forms.',
+      neutral: 'Address the listener as "நீங்கள்".',
+      honorific: 'Address the listener as "தாங்கள்" with respectful verb forms.',
+    },
+  },
+  {
+    code: 'te',
+    name: 'Telugu',
+    nativeName: 'తెలుగు',
+    promptName: 'Telugu',
+    scripts: ['Telugu'],
+    direction: 'ltr',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'te-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(digitsFrom(0x0c66), ['జనవరి', 'ఫిబ్రవరి', 'మార్చి', 'ఏప్రిల్', 'మే', 'జూన్', 'జులై', 'ఆగస్టు', 'సెప్టెంబర్', 'అక్టోబర్', 'నవంబర్', 'డిసెంబర్']),
+    detectionProfile: profile('te'),
+    registerHints: {
+      informal: 'Address the listener as "నువ్వు" with matching verb forms.',
+      neutral: 'Address the listener as "మీరు".',
+      honorific: 'Address the listener as "తమరు" or "మీరు" with respectful verb forms.',
+    },
+  },
+  {
+    code: 'ur',
+    name: 'Urdu',
+    nativeName: 'اردو',
+    promptName: 'Urdu',
+    scripts: ['Arabic'],
+    direction: 'rtl',
+    sampling: INDIC_SAMPLING,
+    ttsLocale: 'ur-IN',
+    pluralForms: 'nplurals=2; plural=(n != 1);',
+    numerals: indianNumerals(digitsFrom(0x06f0), ['جنوری', 'فروری', 'مارچ', 'اپریل', 'مئی', 'جون', 'جولائی', 'اگست', 'ستمبر', 'اکتوبر', 'نومبر', 'دسمبر']),
+    detectionProfile: profile('ur'),
+    registerHints: {
+      informal: 'Address the listener as "تو" or "تم" with matching verb forms.',
+      neutral: 'Address the listener as "آپ".',
+      honorific: 'Address the listener as "آپ" and add honorifics such as "جناب" where natural.',
+    },
+  },
+];
+
+const LANGUAGES_BY_CODE = new Map(SUPPORTED_LANGUAGES.map(language => [language.code, language]));
+
+// Registry entry for a language code (undefined when the app does not support it)
+export const getLanguage = (code: string): LanguageDefinition | undefined => LANGUAGES_BY_CODE.get(code);
+
+export const isSupportedLanguage = (code: string): boolean => LANGUAGES_BY_CODE.has(code);
+
+// Registry problems, empty when every language is fully described
+export const findRegistryProblems = (): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const language of SUPPORTED_LANGUAGES) {
+    const label = `"${language.code}"`;
+    if (seen.has(language.code)) {
+      problems.push(`${label} is listed more than once`);
+    }
+    seen.add(language.code);
+
+    if (!language.name || !language.nativeName || !language.promptName) {
+      problems.push(`${label} is missing a name`);
+    }
+    if (!/^[a-z]{2,3}-[A-Z]{2}$/.test(language.ttsLocale)) {
+      problems.push(`${label} has an invalid TTS locale "${language.ttsLocale}"`);
+    }
+    if (!(language.sampling.maxTokens > 0) || !(language.sampling.temperature >= 0)) {
+      problems.push(`${label} has invalid sampling settings`);
+    }
+    if (language.scripts.length === 0) {
+      problems.push(`${label} has no scripts`);
+    }
+    for (const script of language.scripts) {
+      try {
+        new RegExp(`\\p{Script=${script}}`, 'u');
+      } catch {
+        problems.push(`${label} uses an unknown script "${script}"`);
+      }
+    }
+    if (!language.detectionProfile) {
+      problems.push(`${label} has no detection profile`);
+    }
+    const digits = Array.from(language.numerals.digits || '');
+    if (language.numerals.digits !== undefined && (digits.length !== 10 || digits.some(digit => !/^\p{Nd}$/u.test(digit)))) {
+      problems.push(`${label} needs ten native digits`);
+    }
+    if (language.numerals.months && language.numerals.months.length !== 12) {
+      problems.push(`${label} needs twelve month names`);
+    }
+  }
+
+  for (const detection of LANGUAGE_PROFILES) {
+    if (!seen.has(detection.code)) {
+      problems.push(`Detection profile "${detection.code}" has no registry entry`);
+    }
+  }
+
+  return problems;
+};
+
+// Startup consistency check: throws listing every problem so a bad edit fails loudly
+export const validateLanguageRegistry = (): void => {
+  const problems = findRegistryProblems();
+  if (problems.length > 0) {
+    throw new Error(`Language registry is inconsistent:\n- ${problems.join('\n- ')}`);
+  }
+};
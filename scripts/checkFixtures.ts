@@ -0,0 +1,110 @@
+import { TRANSLATION_PROMPT_TEMPLATE } from '../config/gemmaConfig';
+import { getLanguage } from '../config/languageRegistry';
+import { FixtureTranslationEngine } from '../services/fixtureTranslationEngine';
+import { maskProtectedSpans } from '../utils/entityMasking';
+import { identifyLanguageOffline } from '../utils/languageIdentifier';
+import { protectLocaleEntities } from '../utils/localeFormatting';
+import { measureLanguageIdAccuracy } from '../utils/languageIdFixtures';
+
+/**
+ * Offline checks run with `npm run check:fixtures`
+ *
+ * Measures the language identifier on utils/languageIdFixtures.ts, checks
+ * how dates and phone numbers in source text are protected, and translates
+ * a few phrases there and back with the fixture engine. Exits with an error
+ * when a language falls below MIN_ACCURACY, a masking case is protected
+ * the wrong way, or a round trip does not return the original phrase.
+ */
+
+// Share of a language's fixture sentences that must be identified correctly
+const MIN_ACCURACY = 0.75;
+
+// English phrases from the fixture engine's table, with the languages it knows
+const ROUND_TRIP_PHRASES = ['hello', 'thank you', 'good night'];
+const ROUND_TRIP_LANGUAGES = ['hi', 'ne'];
+
+// English source text and the kind each listed span must be protected as: a phone span or a date entity
+const MASKING_CASES: Array<{ text: string; expect: Array<'phone' | 'date'> }> = [
+  { text: 'Meeting on 2024-03-12 at 5', expect: ['date'] },
+  { text: 'Due 12-03-2024', expect: ['date'] },
+  { text: 'Call +91 98765 43210 today', expect: ['phone'] },
+  { text: 'Call 98765-43210 before 12/03/2024', expect: ['phone', 'date'] },
+];
+
+const buildPrompt = (text: string, fromLang: string, toLang: string): string => {
+  return TRANSLATION_PROMPT_TEMPLATE
+    .replace(/\{from\}/g, getLanguage(fromLang)!.promptName)
+    .replace(/\{to\}/g, getLanguage(toLang)!.promptName)
+    .replace('{text}', text);
+};
+
+const checkLanguageId = (): string[] => {
+  const problems: string[] = [];
+  for (const result of measureLanguageIdAccuracy(text => identifyLanguageOffline(text))) {
+    const accuracy = result.correct / result.total;
+    console.log(`${result.code.padEnd(4)} ${result.correct}/${result.total}`);
+    for (const miss of result.misses) {
+      console.log(`     read as ${miss.detected}: ${miss.text}`);
+    }
+    if (accuracy < MIN_ACCURACY) {
+      problems.push(`Language ID accuracy for ${result.code} is ${Math.round(accuracy * 100)}%`);
+    }
+  }
+  return problems;
+};
+
+// Same span order as the service: protected spans first, then locale entities in what is left
+const checkMasking = (): string[] => {
+  const problems: string[] = [];
+  for (const { text, expect } of MASKING_CASES) {
+    const masked = maskProtectedSpans(text);
+    const entities = protectLocaleEntities(masked.text, 'en', 'hi', 'ascii').entities;
+    const found = [
+      ...masked.spans.filter(span => span.kind === 'phone').map(() => 'phone'),
+      ...entities.filter(entity => entity.kind === 'date').map(() => 'date'),
+    ];
+    console.log(`${text} → ${found.join(', ') || 'nothing'}`);
+    if (found.join() !== expect.join()) {
+      problems.push(`"${text}" was protected as [${found.join(', ')}] instead of [${expect.join(', ')}]`);
+    }
+  }
+  return problems;
+};
+
+const checkRoundTrip = async (): Promise<string[]> => {
+  const engine = new FixtureTranslationEngine({ fixtureTokenDelay: 0 });
+  await engine.load();
+  const problems: string[] = [];
+
+  for (const toLang of ROUND_TRIP_LANGUAGES) {
+    for (const phrase of ROUND_TRIP_PHRASES) {
+      const params = { maxTokens: 64, temperature: 0, topP: 1, topK: 1 };
+      const there = await engine.generate({ ...params, prompt: buildPrompt(phrase, 'en', toLang) });
+      const back = await engine.generate({ ...params, prompt: buildPrompt(there.text, toLang, 'en') });
+      console.log(`en → ${toLang} → en: ${phrase} → ${there.text} → ${back.text}`);
+      if (back.text.toLowerCase() !== phrase) {
+        problems.push(`Round trip through ${toLang} turned "${phrase}" into "${back.text}"`);
+      }
+    }
+  }
+
+  await engine.dispose();
+  return problems;
+};
+
+const main = async () => {
+  console.log('Language ID accuracy');
+  const languageId = checkLanguageId();
+  console.log('Protected spans');
+  const problems = [...languageId, ...checkMasking(), ...(await checkRoundTrip())];
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(`FAIL ${problem}`));
+    process.exit(1);
+  }
+  console.log('All fixture checks passed');
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
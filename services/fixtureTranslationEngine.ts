@@ -0,0 +1,127 @@
+import { EngineConfig } from '../config/gemmaConfig';
+import { GenerationParams, GenerationResult, TranslationEngine } from './translationEngine';
+import { delay, throwIfAborted } from '../utils/cancellation';
+
+// Common phrases keyed by the registry prompt names used in translation prompts
+const FIXTURE_PHRASES: Array<{ [languageName: string]: string }> = [
+  { English: 'hello', Hindi: 'नमस्ते', Nepali: 'नमस्ते', Spanish: 'Hola' },
+  { English: 'how are you', Hindi: 'आप कैसे हैं', Nepali: 'तपाईं कसरी हुनुहुन्छ', Spanish: '¿Cómo estás?' },
+  { English: 'good morning', Hindi: 'सुप्रभात', Nepali: 'शुभ प्रभात', Spanish: 'Buenos días' },
+  { English: 'thank you', Hindi: 'धन्यवाद', Nepali: 'धन्यवाद', Spanish: 'Gracias' },
+  { English: 'goodbye', Hindi: 'अलविदा', Nepali: 'अलविदा', Spanish: 'Adiós' },
+  { English: 'what is your name', Hindi: 'आपका नाम क्या है', Nepali: 'तपाईंको नाम के हो', Spanish: '¿Cómo te llamas?' },
+  { English: 'nice to meet you', Hindi: 'आपसे मिलकर खुशी हुई', Nepali: 'तपाईंलाई भेटेर खुशी लाग्यो', Spanish: 'Encantado de conocerte' },
+  { English: 'where are you from', Hindi: 'आप कहाँ से हैं', Nepali: 'तपाईं कहाँबाट हुनुहुन्छ', Spanish: '¿De dónde eres?' },
+  { English: 'i love you', Hindi: 'मैं आपसे प्यार करता हूँ', Nepali: 'म तपाईंलाई माया गर्छु', Spanish: 'Te quiero' },
+  { English: 'good night', Hindi: 'शुभ रात्रि', Nepali: 'शुभ रात्री', Spanish: 'Buenas noches' },
+];
+
+/**
+ * FixtureTranslationEngine - Deterministic engine for tests and offline demos
+ *
+ * Answers from a small phrase table and echoes anything else in a tagged
+ * bracket, so the same prompt always produces the same output and token count.
+ */
+export class FixtureTranslationEngine implements TranslationEngine {
+  readonly name = 'fixture';
+  private readonly tokenDelay: number;
+
+  constructor(config: Pick<EngineConfig, 'fixtureTokenDelay'>) {
+    this.tokenDelay = config.fixtureTokenDelay;
+  }
+
+  async load(): Promise<void> {
+    // Nothing to load
+  }
+
+  async generate(params: GenerationParams): Promise<GenerationResult> {
+    throwIfAborted(params.signal);
+    const tokens = this.splitTokens(this.respond(params.prompt));
+    const emitted = tokens.slice(0, params.maxTokens);
+
+    return {
+      text: emitted.join(''),
+      tokensUsed: emitted.length,
+      finishReason: emitted.length < tokens.length ? 'length' : 'stop',
+    };
+  }
+
+  async stream(params: GenerationParams, onToken: (token: string) => void): Promise<GenerationResult> {
+    const tokens = this.splitTokens(this.respond(params.prompt));
+    const emitted = tokens.slice(0, params.maxTokens);
+
+    for (const token of emitted) {
+      await delay(this.tokenDelay, params.signal);
+      onToken(token);
+    }
+
+    return {
+      text: emitted.join(''),
+      tokensUsed: emitted.length,
+      finishReason: emitted.length < tokens.length ? 'length' : 'stop',
+    };
+  }
+
+  async tokenize(text: string): Promise<number[]> {
+    return this.splitTokens(text).map(token => this.hashToken(token));
+  }
+
+  async dispose(): Promise<void> {
+    // Nothing to release
+  }
+
+  // Build the fixture answer for a translation prompt
+  private respond(prompt: string): string {
+    const sourceText = this.extractSourceText(prompt);
+    const targetLanguage = this.extractTargetLanguage(prompt);
+    const lowerText = sourceText.toLowerCase();
+
+    // Prefer the longest matching phrase so "good night" beats "good"
+    let bestMatch: { [languageName: string]: string } | null = null;
+    let bestLength = 0;
+    for (const phrase of FIXTURE_PHRASES) {
+      for (const value of Object.values(phrase)) {
+        if (value.length > bestLength && lowerText.includes(value.toLowerCase())) {
+          bestMatch = phrase;
+          bestLength = value.length;
+        }
+      }
+    }
+
+    if (bestMatch && bestMatch[targetLanguage]) {
+      return bestMatch[targetLanguage];
+    }
+
+    return `[${targetLanguage} translation: ${sourceText}]`;
+  }
+
+  // Source text sits in the first quoted block ("English: "{text}"")
+  private extractSourceText(prompt: string): string {
+    const match = prompt.match(/:\s*"([\s\S]*?)"\s*\n\n/);
+    return match ? match[1] : prompt.trim();
+  }
+
+  // Prompts end with "<Target language>:"; generic prompts say "... to <code>."
+  private extractTargetLanguage(prompt: string): string {
+    const label = prompt.match(/([^\n:]+):\s*$/);
+    if (label && label[1].trim() !== 'Translation') {
+      return label[1].trim();
+    }
+    const generic = prompt.match(/ to (\S+?)\./);
+    return generic ? generic[1] : 'Unknown';
+  }
+
+  // Each word together with its leading whitespace counts as one token
+  private splitTokens(text: string): string[] {
+    return text.match(/\s*[^\s]+/g) || [];
+  }
+
+  private hashToken(token: string): number {
+    let hash = 0;
+    for (let i = 0; i < token.length; i++) {
+      hash = ((hash << 5) - hash) + token.charCodeAt(i);
+      hash = hash & hash;
+    }
+    return Math.abs(hash);
+  }
+}
@@ -0,0 +1,216 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { parseCsv, toCsv } from '../utils/csv';
+
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  target: string;
+  note?: string;
+  updatedAt: number;
+}
+
+export type GlossaryEntryInput = Pick<GlossaryEntry, 'source' | 'target' | 'note'>;
+
+const WORD_CHAR = /[\p{L}\p{M}\p{N}_]/u;
+const COMBINING_MARK = /\p{M}/u;
+
+// Scripts written without spaces between words, where any position can be a word boundary
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// A word character that would make "art" part of a longer word such as "start"
+const joinsWord = (char: string | undefined): boolean => !!char && WORD_CHAR.test(char) && !UNSPACED_SCRIPT.test(char);
+
+/**
+ * Whether term occurs in text as a whole word (case-insensitive). Edges of
+ * the term that are not word characters need no boundary, and vowel signs
+ * after the term are allowed so inflected Indic forms (किताब → किताबें) count.
+ */
+export const containsTerm = (text: string, term: string): boolean => {
+  const lowerText = text.toLowerCase();
+  const lowerTerm = term.toLowerCase().trim();
+  if (!lowerTerm) {
+    return false;
+  }
+  const needsStart = joinsWord(lowerTerm[0]);
+  const needsEnd = joinsWord(lowerTerm[lowerTerm.length - 1]);
+
+  for (let index = lowerText.indexOf(lowerTerm); index >= 0; index = lowerText.indexOf(lowerTerm, index + 1)) {
+    let end = index + lowerTerm.length;
+    while (COMBINING_MARK.test(lowerText[end] || '')) {
+      end++;
+    }
+    if ((!needsStart || !joinsWord(lowerText[index - 1])) && (!needsEnd || !joinsWord(lowerText[end]))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Entries whose source term appears in the text as a whole word (case-insensitive)
+export const matchGlossaryEntries = (text: string, entries: GlossaryEntry[]): GlossaryEntry[] => {
+  return entries.filter(entry => containsTerm(text, entry.source));
+};
+
+// Target terms from matched entries that are missing from the output
+export const findMissingTerms = (output: string, entries: GlossaryEntry[]): string[] => {
+  return entries
+    .filter(entry => !containsTerm(output, entry.target))
+    .map(entry => entry.target);
+};
+
+/**
+ * GlossaryService - Per-language-pair terminology store
+ *
+ * Each pair is persisted under its own AsyncStorage key and loaded lazily the
+ * first time it is used. Matched entries are injected into translation prompts
+ * and checked against the model output.
+ */
+export class GlossaryService {
+  private static instance: GlossaryService;
+  private glossaries: Map<string, GlossaryEntry[]> = new Map();
+  private readonly STORAGE_PREFIX = 'glossary_';
+
+  private constructor() {}
+
+  public static getInstance(): GlossaryService {
+    if (!GlossaryService.instance) {
+      GlossaryService.instance = new GlossaryService();
+    }
+    return GlossaryService.instance;
+  }
+
+  // Get all entries for a language pair
+  async getEntries(fromLang: string, toLang: string): Promise<GlossaryEntry[]> {
+    const key = this.pairKey(fromLang, toLang);
+    const cached = this.glossaries.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let entries: GlossaryEntry[] = [];
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_PREFIX + key);
+      entries = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading glossary:', error);
+    }
+
+    this.glossaries.set(key, entries);
+    return entries;
+  }
+
+  // Entries for a language pair whose source term appears in the text
+  async findMatches(text: string, fromLang: string, toLang: string): Promise<GlossaryEntry[]> {
+    return matchGlossaryEntries(text, await this.getEntries(fromLang, toLang));
+  }
+
+  // Add an entry, replacing any existing entry with the same source term
+  async addEntry(fromLang: string, toLang: string, input: GlossaryEntryInput): Promise<GlossaryEntry> {
+    this.validateEntry(input);
+    const entries = await this.getEntries(fromLang, toLang);
+    const entry: GlossaryEntry = {
+      id: this.generateId(),
+      source: input.source.trim(),
+      target: input.target.trim(),
+      note: input.note,
+      updatedAt: Date.now(),
+    };
+
+    const remaining = entries.filter(existing => existing.source.toLowerCase() !== entry.source.toLowerCase());
+    await this.saveEntries(fromLang, toLang, [...remaining, entry]);
+    return entry;
+  }
+
+  // Edit an existing entry
+  async updateEntry(
+    fromLang: string,
+    toLang: string,
+    id: string,
+    changes: Partial<GlossaryEntryInput>
+  ): Promise<GlossaryEntry> {
+    const entries = await this.getEntries(fromLang, toLang);
+    const existing = entries.find(entry => entry.id === id);
+    if (!existing) {
+      throw new Error(`Glossary entry not found: ${id}`);
+    }
+
+    const updated: GlossaryEntry = {
+      ...existing,
+      ...changes,
+      source: (changes.source ?? existing.source).trim(),
+      target: (changes.target ?? existing.target).trim(),
+      updatedAt: Date.now(),
+    };
+    this.validateEntry(updated);
+
+    await this.saveEntries(fromLang, toLang, entries.map(entry => (entry.id === id ? updated : entry)));
+    return updated;
+  }
+
+  // Delete an entry
+  async deleteEntry(fromLang: string, toLang: string, id: string): Promise<void> {
+    const entries = await this.getEntries(fromLang, toLang);
+    await this.saveEntries(fromLang, toLang, entries.filter(entry => entry.id !== id));
+  }
+
+  // Import "source,target[,note]" rows; a leading header row is skipped
+  async importCsv(fromLang: string, toLang: string, csv: string): Promise<number> {
+    const rows = parseCsv(csv);
+    if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'source') {
+      rows.shift();
+    }
+
+    const entries = await this.getEntries(fromLang, toLang);
+    const bySource = new Map(entries.map(entry => [entry.source.toLowerCase(), entry]));
+    let imported = 0;
+
+    for (const [source, target, note] of rows) {
+      if (!source?.trim() || !target?.trim()) {
+        continue;
+      }
+      const existing = bySource.get(source.trim().toLowerCase());
+      bySource.set(source.trim().toLowerCase(), {
+        id: existing?.id || this.generateId(),
+        source: source.trim(),
+        target: target.trim(),
+        note: note?.trim() || undefined,
+        updatedAt: Date.now(),
+      });
+      imported++;
+    }
+
+    await this.saveEntries(fromLang, toLang, Array.from(bySource.values()));
+    return imported;
+  }
+
+  // Export entries as "source,target,note" CSV with a header row
+  async exportCsv(fromLang: string, toLang: string): Promise<string> {
+    const entries = await this.getEntries(fromLang, toLang);
+    return toCsv([
+      ['source', 'target', 'note'],
+      ...entries.map(entry => [entry.source, entry.target, entry.note || '']),
+    ]);
+  }
+
+  private async saveEntries(fromLang: string, toLang: string, entries: GlossaryEntry[]): Promise<void> {
+    const key = this.pairKey(fromLang, toLang);
+    this.glossaries.set(key, entries);
+    await AsyncStorage.setItem(this.STORAGE_PREFIX + key, JSON.stringify(entries));
+  }
+
+  private validateEntry(input: GlossaryEntryInput): void {
+    if (!input.source?.trim() || !input.target?.trim()) {
+      throw new Error('Glossary source and target terms cannot be empty');
+    }
+  }
+
+  private pairKey(fromLang: string, toLang: string): string {
+    return `${fromLang}_${toLang}`;
+  }
+
+  private generateId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
+
+export default GlossaryService.getInstance();
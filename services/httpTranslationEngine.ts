@@ -0,0 +1,268 @@
+import { EngineConfig } from '../config/gemmaConfig';
+import { GenerationParams, GenerationResult, TranslationEngine } from './translationEngine';
+import { AbortError, TimeoutError, TimeoutStage, throwIfAborted } from '../utils/cancellation';
+
+/**
+ * HttpTranslationEngine - Talks to a local llama.cpp server or Ollama instance
+ *
+ * llama.cpp: POST /completion (SSE when streaming), POST /tokenize, GET /health
+ * Ollama:    POST /api/generate (NDJSON when streaming), GET /api/tags
+ *
+ * Streaming uses XMLHttpRequest progress events because React Native's fetch
+ * does not expose a readable response body.
+ */
+export class HttpTranslationEngine implements TranslationEngine {
+  readonly name: string;
+  private readonly config: EngineConfig;
+
+  constructor(config: EngineConfig) {
+    this.config = config;
+    this.name = `http-${config.flavor}`;
+  }
+
+  // Check that the server is reachable before the first generation
+  async load(): Promise<void> {
+    const path = this.config.flavor === 'ollama' ? '/api/tags' : '/health';
+    await this.request('load', 'GET', path, undefined, undefined, async (response) => {
+      if (!response.ok) {
+        throw new Error(`Inference server not ready (${response.status})`);
+      }
+    });
+  }
+
+  async generate(params: GenerationParams): Promise<GenerationResult> {
+    const body = this.buildBody(params, false);
+    const data = await this.request('inference', 'POST', this.generatePath(), body, params.signal, async (response) => {
+      if (!response.ok) {
+        throw new Error(`Inference request failed (${response.status})`);
+      }
+      return response.json();
+    });
+
+    if (this.config.flavor === 'ollama') {
+      return {
+        text: data.response || '',
+        tokensUsed: data.eval_count || 0,
+        finishReason: data.done_reason === 'length' ? 'length' : 'stop',
+      };
+    }
+
+    return {
+      text: data.content || '',
+      tokensUsed: data.tokens_predicted || 0,
+      finishReason: data.stopped_limit ? 'length' : 'stop',
+    };
+  }
+
+  async stream(params: GenerationParams, onToken: (token: string) => void): Promise<GenerationResult> {
+    let text = '';
+    let tokensUsed = 0;
+    let finishReason: GenerationResult['finishReason'] = 'stop';
+
+    await this.postStreaming(this.generatePath(), this.buildBody(params, true), params.signal, (line) => {
+      // llama.cpp sends SSE ("data: {...}"), Ollama sends bare NDJSON
+      const payload = line.startsWith('data:') ? line.slice(5).trim() : line;
+      if (!payload || payload === '[DONE]') {
+        return;
+      }
+
+      const data = JSON.parse(payload);
+      const token: string = this.config.flavor === 'ollama' ? data.response || '' : data.content || '';
+      if (token) {
+        text += token;
+        tokensUsed++;
+        onToken(token);
+      }
+
+      if (this.config.flavor === 'ollama' && data.done) {
+        tokensUsed = data.eval_count || tokensUsed;
+        finishReason = data.done_reason === 'length' ? 'length' : 'stop';
+      } else if (this.config.flavor === 'llamacpp' && data.stop) {
+        tokensUsed = data.tokens_predicted || tokensUsed;
+        finishReason = data.stopped_limit ? 'length' : 'stop';
+      }
+    });
+
+    return { text, tokensUsed, finishReason };
+  }
+
+  async tokenize(text: string): Promise<number[]> {
+    if (this.config.flavor === 'ollama') {
+      // Ollama has no tokenize endpoint; approximate with 4-character pieces
+      const ids: number[] = [];
+      for (let i = 0; i < text.length; i += 4) {
+        ids.push(this.hashPiece(text.slice(i, i + 4)));
+      }
+      return ids;
+    }
+
+    const data = await this.request('inference', 'POST', '/tokenize', { content: text }, undefined, async (response) => {
+      if (!response.ok) {
+        throw new Error(`Tokenize request failed (${response.status})`);
+      }
+      return response.json();
+    });
+    return data.tokens || [];
+  }
+
+  async dispose(): Promise<void> {
+    // The server owns the weights; nothing to release on the client side
+  }
+
+  private generatePath(): string {
+    return this.config.flavor === 'ollama' ? '/api/generate' : '/completion';
+  }
+
+  // Map GenerationParams onto the server's request schema
+  private buildBody(params: GenerationParams, stream: boolean): object {
+    if (this.config.flavor === 'ollama') {
+      return {
+        model: this.config.model,
+        prompt: params.prompt,
+        stream,
+        options: {
+          num_predict: params.maxTokens,
+          temperature: params.temperature,
+          top_p: params.topP,
+          top_k: params.topK,
+          ...(params.stop && { stop: params.stop }),
+          ...(params.seed !== undefined && { seed: params.seed }),
+        },
+      };
+    }
+
+    return {
+      prompt: params.prompt,
+      stream,
+      n_predict: params.maxTokens,
+      temperature: params.temperature,
+      top_p: params.topP,
+      top_k: params.topK,
+      ...(params.stop && { stop: params.stop }),
+      ...(params.seed !== undefined && { seed: params.seed }),
+    };
+  }
+
+  // Send a request and read its response; the deadline covers the body as well as the headers
+  private async request<T>(
+    stage: TimeoutStage,
+    method: 'GET' | 'POST',
+    path: string,
+    body: object | undefined,
+    signal: AbortSignal | undefined,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    // One controller for both the request timeout and the caller's signal
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.config.requestTimeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}${path}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+      return await read(response);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+      // Our own deadline, not a cancellation: callers must not treat it as one
+      if (timedOut) {
+        throw new TimeoutError(stage, this.config.requestTimeout);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // POST and hand every complete response line to onLine as it arrives
+  private postStreaming(
+    path: string,
+    body: object,
+    signal: AbortSignal | undefined,
+    onLine: (line: string) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError());
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      let consumed = 0;
+      let buffer = '';
+
+      const drain = (final: boolean) => {
+        buffer += xhr.responseText.slice(consumed);
+        consumed = xhr.responseText.length;
+
+        const lines = buffer.split('\n');
+        buffer = final ? '' : lines.pop() || '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (trimmed) {
+            onLine(trimmed);
+          }
+        }
+      };
+
+      xhr.open('POST', `${this.config.baseUrl}${path}`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.timeout = this.config.requestTimeout;
+
+      xhr.onprogress = () => {
+        try {
+          drain(false);
+        } catch (error) {
+          xhr.abort();
+          reject(error);
+        }
+      };
+      xhr.onload = () => {
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(new Error(`Inference request failed (${xhr.status})`));
+          return;
+        }
+        try {
+          drain(true);
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () => reject(new Error('Inference server unreachable'));
+      xhr.ontimeout = () => reject(new TimeoutError('inference', this.config.requestTimeout));
+
+      // Closing the connection makes llama.cpp and Ollama stop generating
+      const onAbort = () => {
+        xhr.abort();
+        reject(new AbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+
+      xhr.send(JSON.stringify(body));
+    });
+  }
+
+  private hashPiece(piece: string): number {
+    let hash = 0;
+    for (let i = 0; i < piece.length; i++) {
+      hash = ((hash << 5) - hash) + piece.charCodeAt(i);
+      hash = hash & hash;
+    }
+    return Math.abs(hash);
+  }
+}
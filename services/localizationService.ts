@@ -0,0 +1,126 @@
+import * as FileSystem from 'expo-file-system';
+import { LOCALIZATION_CONFIG } from '../config/gemmaConfig';
+import { SUPPORTED_LANGUAGES } from '../config/languageRegistry';
+import optimizedTranslationService, { batchItemFailure } from './optimizedTranslationService';
+import { ResourceFormat, parseResourceFile, resourceOutputPath, writeResourceFile } from '../utils/resourceFiles';
+import { completeMessage, prepareMessage } from '../utils/messageFormat';
+import { throwIfAborted } from '../utils/cancellation';
+
+export interface LocalizationOptions {
+  targetLangs?: string[]; // Defaults to every supported language except the source
+  signal?: AbortSignal;
+  onProgress?: (progress: { completed: number; total: number; result: LocalizationResult }) => void; // Counted in languages
+}
+
+// One translated file
+export interface LocalizationResult {
+  language: string;
+  uri: string;
+  format: ResourceFormat;
+  machineTranslated: string[]; // Keys whose values were translated (marked fuzzy in PO, commented in XML)
+  failed: string[]; // Keys left in the source language, including those whose placeholders did not survive
+  errors: string[]; // Why units failed (engine unavailable, quality checks), without repeats
+}
+
+/**
+ * LocalizationService - Draft UI string translations for app resource files
+ *
+ * Reads i18next JSON, Android strings.xml or gettext PO, translates only the
+ * values through OptimizedTranslationService and writes one file per target
+ * language under the localization folder of the app's document directory.
+ * ICU plural/select branches are translated separately, and placeholders,
+ * tags and nesting references must come back unchanged or the entry keeps
+ * its source text.
+ */
+export class LocalizationService {
+  private static instance: LocalizationService;
+
+  private constructor() {}
+
+  public static getInstance(): LocalizationService {
+    if (!LocalizationService.instance) {
+      LocalizationService.instance = new LocalizationService();
+    }
+    return LocalizationService.instance;
+  }
+
+  async translateResourceFile(
+    fileUri: string,
+    fromLang: string,
+    options: LocalizationOptions = {}
+  ): Promise<LocalizationResult[]> {
+    const fileName = decodeURIComponent(fileUri.replace(/[?#].*$/, '').split('/').pop() || '');
+    const file = parseResourceFile(await FileSystem.readAsStringAsync(fileUri), fileName);
+    const messages = file.entries.map(entry => prepareMessage(entry.text));
+    const languages = (options.targetLangs || SUPPORTED_LANGUAGES.map(language => language.code))
+      .filter(language => language !== fromLang);
+
+    const results: LocalizationResult[] = [];
+    for (const toLang of languages) {
+      throwIfAborted(options.signal);
+
+      // Every unit of every entry in one batch; repeated strings are translated once
+      const units = messages.flatMap(message => message.units);
+      const items = await optimizedTranslationService.translateBatch(
+        units.map(unit => ({ text: unit.text, fromLang, toLang })),
+        { signal: options.signal }
+      );
+
+      const machineTranslated: string[] = [];
+      const failed: string[] = [];
+      const errors = new Set<string>();
+      let next = 0;
+      const values = messages.map((message, index) => {
+        // Fallback phrases and low-confidence output count as missing, so the entry keeps its source text
+        const translations = message.units.map(() => {
+          const item = items[next++];
+          const failure = batchItemFailure(item);
+          if (failure) {
+            errors.add(failure);
+            return undefined;
+          }
+          return item.result!.translatedText;
+        });
+        if (message.units.length === 0) {
+          return undefined; // Nothing to translate (placeholders only, numbers, empty)
+        }
+        const value = completeMessage(message, translations);
+        (value === undefined ? failed : machineTranslated).push(file.entries[index].key);
+        return value;
+      });
+
+      const uri = await this.outputUri(resourceOutputPath(file, toLang));
+      await FileSystem.writeAsStringAsync(uri, writeResourceFile(file, values, toLang));
+
+      const result: LocalizationResult = {
+        language: toLang,
+        uri,
+        format: file.format,
+        machineTranslated,
+        failed,
+        errors: Array.from(errors),
+      };
+      results.push(result);
+      options.onProgress?.({ completed: results.length, total: languages.length, result });
+    }
+
+    return results;
+  }
+
+  // Full path under the localization folder, creating its directories on first use
+  private async outputUri(relativePath: string): Promise<string> {
+    if (!FileSystem.documentDirectory) {
+      throw new Error('Localization files cannot be saved on this device');
+    }
+
+    const uri = FileSystem.documentDirectory + LOCALIZATION_CONFIG.outputDirectory + relativePath;
+    const directory = uri.slice(0, uri.lastIndexOf('/') + 1);
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    return uri;
+  }
+}
+
+export default LocalizationService.getInstance();
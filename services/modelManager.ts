@@ -1,6 +1,9 @@
 import { AppState, AppStateStatus } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import { ENGINE_CONFIG, ERROR_CONFIG, PERFORMANCE_CONFIG } from '../config/gemmaConfig';
+import { TranslationEngine, createTranslationEngine } from './translationEngine';
+import { clearTranslationCache } from './persistentTranslationCache';
+import { AbortError, TimeoutError, isTimeoutError, withDeadline } from '../utils/cancellation';
 
 export interface ModelConfig {
   modelName: string;
@@ -21,6 +24,12 @@ export interface ModelStatus {
   error?: string;
 }
 
+// Operation waiting in the single-threaded model queue
+interface QueuedOperation {
+  run: () => Promise<void>;
+  signal?: AbortSignal;
+}
+
 /**
  * ModelManager - Optimized Model Management Service
  * 
@@ -32,10 +41,14 @@ export interface ModelStatus {
  * - Lazy loading reduces app startup time and initial memory footprint
  * - Background unloading frees significant memory when app is not active
  * - Queue processing prevents concurrent model sessions that could cause memory issues
+ *
+ * Loads, engine calls and time spent waiting in the queue each have a deadline;
+ * missing one rejects with a TimeoutError so a hung model never stalls the queue.
  */
 export class ModelManager {
   private static instance: ModelManager;
-  private gemmaModel: any = null;
+  private gemmaModel: TranslationEngine | null = null;
+  private engineFactory: () => TranslationEngine = () => createTranslationEngine(ENGINE_CONFIG);
   private ttsModel: any = null;
   private modelStatus: Map<string, ModelStatus> = new Map();
   private unloadTimer: NodeJS.Timeout | null = null;
@@ -43,7 +56,7 @@ export class ModelManager {
   private appStateSubscription: any = null;
   
   // OPTIMIZATION #8: Queue-based processing to prevent concurrent model operations
-  private requestQueue: Array<() => Promise<any>> = [];
+  private requestQueue: QueuedOperation[] = [];
   private isProcessingQueue: boolean = false;
 
   // OPTIMIZATION #3: Quantized Model Configuration
@@ -55,7 +68,7 @@ export class ModelManager {
     quantizationType: 'Q4', // 4-bit quantization for maximum compression
     maxTokens: 256, // OPTIMIZATION #7: Reduced from 512 to limit memory usage during inference
     memoryLimit: 256, // MB - conservative memory limit for mobile devices
-    loadTimeout: 30000,
+    loadTimeout: PERFORMANCE_CONFIG.modelLoadTimeout,
     unloadDelay: 300000, // 5 minutes - auto-unload after inactivity
   };
 
@@ -123,7 +136,7 @@ export class ModelManager {
 
     if (this.modelStatus.get(modelKey)?.isLoading) {
       // Wait for existing load to complete
-      await this.waitForModelLoad(modelKey);
+      await this.waitForModelLoad(modelKey, this.GEMMA_CONFIG.loadTimeout);
       return;
     }
 
@@ -137,8 +150,17 @@ export class ModelManager {
         throw new Error('Insufficient memory for Gemma model');
       }
 
-      // Load quantized model
-      await this.loadQuantizedModel(this.GEMMA_CONFIG);
+      // Load the inference engine for the quantized model; an engine that finishes
+      // loading after the deadline is disposed instead of being kept
+      const loading = this.loadTranslationEngine();
+      try {
+        this.gemmaModel = await withDeadline(() => loading, this.GEMMA_CONFIG.loadTimeout, 'load');
+      } catch (error) {
+        if (isTimeoutError(error)) {
+          loading.then(engine => engine.dispose()).catch(() => undefined);
+        }
+        throw error;
+      }
       
       this.setModelStatus(modelKey, { 
         isLoaded: true, 
@@ -174,7 +196,7 @@ export class ModelManager {
     }
 
     if (this.modelStatus.get(modelKey)?.isLoading) {
-      await this.waitForModelLoad(modelKey);
+      await this.waitForModelLoad(modelKey, this.TTS_CONFIG.loadTimeout);
       return;
     }
 
@@ -187,7 +209,7 @@ export class ModelManager {
         throw new Error('Insufficient memory for TTS model');
       }
 
-      await this.loadQuantizedModel(this.TTS_CONFIG);
+      await withDeadline(() => this.loadQuantizedModel(this.TTS_CONFIG), this.TTS_CONFIG.loadTimeout, 'load');
       
       this.setModelStatus(modelKey, { 
         isLoaded: true, 
@@ -227,35 +249,126 @@ export class ModelManager {
     }
   }
 
+  // Create and load the translation engine, falling back to the fixture engine
+  // when the configured backend is unavailable and mock fallback is allowed
+  private async loadTranslationEngine(): Promise<TranslationEngine> {
+    const engine = this.engineFactory();
+    try {
+      await engine.load();
+      console.log(`Loaded ${this.GEMMA_CONFIG.modelName} via ${engine.name} engine`);
+      return engine;
+    } catch (error) {
+      await engine.dispose();
+      if (!ERROR_CONFIG.fallbackToMock || engine.name === 'fixture') {
+        throw error;
+      }
+      console.warn(`${engine.name} engine unavailable, using fixture engine:`, error);
+      const fixture = createTranslationEngine({ ...ENGINE_CONFIG, type: 'fixture' });
+      await fixture.load();
+      return fixture;
+    }
+  }
+
+  // Replace the engine used for subsequent loads (unloads the current one)
+  async setEngineFactory(factory: () => TranslationEngine): Promise<void> {
+    this.engineFactory = factory;
+    await this.unloadGemmaModel();
+  }
+
+  // Engine for the currently loaded Gemma model; only valid inside executeWithGemma.
+  // Each generation is bounded by PERFORMANCE_CONFIG.translationTimeout
+  getGemmaEngine(): TranslationEngine {
+    if (!this.gemmaModel) {
+      throw new Error('Gemma model is not loaded');
+    }
+    return this.withInferenceDeadline(this.gemmaModel);
+  }
+
+  // Wrap engine calls so a hung generation is aborted and its caller released at the deadline.
+  // Tokens a stream produces after the deadline are dropped
+  private withInferenceDeadline(engine: TranslationEngine): TranslationEngine {
+    const timeout = PERFORMANCE_CONFIG.translationTimeout;
+    return {
+      name: engine.name,
+      load: () => engine.load(),
+      generate: (params) => withDeadline((signal) => {
+        return engine.generate({ ...params, signal });
+      }, timeout, 'inference', params.signal),
+      stream: (params, onToken) => withDeadline((signal) => {
+        return engine.stream({ ...params, signal }, (token) => {
+          if (!signal.aborted) {
+            onToken(token);
+          }
+        });
+      }, timeout, 'inference', params.signal),
+      tokenize: (text) => engine.tokenize(text),
+      dispose: () => engine.dispose(),
+    };
+  }
+
   // Queue-based request handling to avoid concurrent sessions
-  async executeWithGemma<T>(operation: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.requestQueue.push(async () => {
-        try {
-          await this.loadGemmaModel();
-          const result = await operation();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
-      });
-      
-      this.processQueue();
-    });
+  async executeWithGemma<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.enqueue(async () => {
+      await this.loadGemmaModel();
+      return await operation();
+    }, signal);
+  }
+
+  async executeWithTTS<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.enqueue(async () => {
+      await this.loadTTSModel();
+      return await operation();
+    }, signal);
   }
 
-  async executeWithTTS<T>(operation: () => Promise<T>): Promise<T> {
+  // Add an operation to the queue. If the signal fires while it is still queued
+  // the operation is dropped; if it fires while running the caller is released
+  // immediately and the operation is expected to stop via the same signal.
+  // Operations still waiting after PERFORMANCE_CONFIG.queueWaitTimeout are dropped with a TimeoutError.
+  private enqueue<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     return new Promise((resolve, reject) => {
-      this.requestQueue.push(async () => {
-        try {
-          await this.loadTTSModel();
-          const result = await operation();
-          resolve(result);
-        } catch (error) {
-          reject(error);
+      if (signal?.aborted) {
+        reject(new AbortError());
+        return;
+      }
+
+      const entry: QueuedOperation = {
+        signal,
+        run: async () => {
+          clearTimeout(queueTimer);
+          try {
+            resolve(await operation());
+          } catch (error) {
+            reject(error);
+          } finally {
+            signal?.removeEventListener('abort', onAbort);
+          }
+        },
+      };
+
+      // Remove the entry if it has not started yet
+      const drop = (error: Error) => {
+        const index = this.requestQueue.indexOf(entry);
+        if (index !== -1) {
+          this.requestQueue.splice(index, 1);
         }
-      });
-      
+        reject(error);
+      };
+
+      const onAbort = () => {
+        clearTimeout(queueTimer);
+        drop(new AbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const queueTimer = setTimeout(() => {
+        if (this.requestQueue.includes(entry)) {
+          signal?.removeEventListener('abort', onAbort);
+          drop(new TimeoutError('queue', PERFORMANCE_CONFIG.queueWaitTimeout));
+        }
+      }, PERFORMANCE_CONFIG.queueWaitTimeout);
+
+      this.requestQueue.push(entry);
       this.processQueue();
     });
   }
@@ -269,9 +382,9 @@ export class ModelManager {
 
     while (this.requestQueue.length > 0) {
       const operation = this.requestQueue.shift();
-      if (operation) {
+      if (operation && !operation.signal?.aborted) {
         try {
-          await operation();
+          await operation.run();
         } catch (error) {
           console.error('Error processing queue operation:', error);
         }
@@ -282,18 +395,20 @@ export class ModelManager {
   }
 
   // Unload models when app goes to background
+  // The persisted translation cache is kept so repeat phrases stay instant after a restart
   private unloadModelsOnBackground(): void {
     console.log('App backgrounded - unloading models');
     this.unloadGemmaModel();
     this.unloadTTSModel();
-    this.clearCache();
   }
 
   // Unload specific models
   async unloadGemmaModel(): Promise<void> {
     if (this.gemmaModel) {
       console.log('Unloading Gemma model');
+      const engine = this.gemmaModel;
       this.gemmaModel = null;
+      await engine.dispose();
       this.setModelStatus('gemma', { 
         isLoaded: false, 
         isLoading: false, 
@@ -354,16 +469,10 @@ export class ModelManager {
     return totalUsage;
   }
 
-  // Cache management
+  // Cache management: also drops the translation service's in-memory entries and queued writes
   async clearCache(): Promise<void> {
-    try {
-      const keys = await AsyncStorage.getAllKeys();
-      const cacheKeys = keys.filter(key => key.startsWith('translation_cache_'));
-      await AsyncStorage.multiRemove(cacheKeys);
-      console.log('Translation cache cleared');
-    } catch (error) {
-      console.error('Error clearing cache:', error);
-    }
+    await clearTranslationCache();
+    console.log('Translation cache cleared');
   }
 
   // Utility methods
@@ -371,12 +480,21 @@ export class ModelManager {
     this.modelStatus.set(modelKey, status);
   }
 
-  private async waitForModelLoad(modelKey: string): Promise<void> {
-    return new Promise((resolve) => {
+  // Wait for a load started by another caller; gives up at the load deadline
+  // and fails if that load did not succeed
+  private async waitForModelLoad(modelKey: string, timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    return new Promise((resolve, reject) => {
       const checkStatus = () => {
         const status = this.modelStatus.get(modelKey);
         if (status && !status.isLoading) {
-          resolve();
+          if (status.isLoaded) {
+            resolve();
+          } else {
+            reject(new Error(status.error || `Failed to load ${modelKey} model`));
+          }
+        } else if (Date.now() >= deadline) {
+          reject(new TimeoutError('load', timeoutMs));
         } else {
           setTimeout(checkStatus, 100);
         }
@@ -409,7 +527,6 @@ export class ModelManager {
     this.cancelUnloadTimer();
     this.unloadGemmaModel();
     this.unloadTTSModel();
-    this.clearCache();
     if (this.appStateSubscription) {
       this.appStateSubscription.remove();
     }
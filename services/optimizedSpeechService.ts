@@ -3,6 +3,8 @@ import * as Speech from 'expo-speech';
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
 import modelManager from './modelManager';
+import { delay, throwIfAborted } from '../utils/cancellation';
+import { getLanguage } from '../config/languageRegistry';
 
 export interface SpeechRecognitionResult {
   text: string;
@@ -264,14 +266,14 @@ export class OptimizedSpeechService {
   }
 
   // Convert speech to text with optimization
-  async speechToText(audioUri: string): Promise<SpeechRecognitionResult> {
+  async speechToText(audioUri: string, signal?: AbortSignal): Promise<SpeechRecognitionResult> {
     const startTime = Date.now();
     
     try {
       // Use model manager for lazy loading
       return await modelManager.executeWithGemma(async () => {
         // Simulate speech-to-text conversion with optimization
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await delay(1000, signal);
 
         const responses = [
           "Hello, how are you today?",
@@ -294,7 +296,7 @@ export class OptimizedSpeechService {
           language: 'en',
           processingTime: Date.now() - startTime,
         };
-      });
+      }, signal);
     } catch (error) {
       console.error('Error in speech-to-text conversion:', error);
       throw error;
@@ -305,7 +307,8 @@ export class OptimizedSpeechService {
   async speakTextStream(
     text: string, 
     options: TTSOptions,
-    onChunk?: (chunk: AudioChunk) => void
+    onChunk?: (chunk: AudioChunk) => void,
+    signal?: AbortSignal
   ): Promise<void> {
     try {
       await modelManager.executeWithTTS(async () => {
@@ -314,6 +317,7 @@ export class OptimizedSpeechService {
         const chunkSize = Math.ceil(words.length / 5); // 5 chunks total
         
         for (let i = 0; i < words.length; i += chunkSize) {
+          throwIfAborted(signal);
           const chunk = words.slice(i, i + chunkSize).join(' ');
           
           // Generate audio chunk
@@ -328,9 +332,9 @@ export class OptimizedSpeechService {
           }
           
           // Small delay between chunks
-          await new Promise(resolve => setTimeout(resolve, 100));
+          await delay(100, signal);
         }
-      });
+      }, signal);
     } catch (error) {
       console.error('Error in streaming TTS:', error);
       throw error;
@@ -338,18 +342,25 @@ export class OptimizedSpeechService {
   }
 
   // Traditional TTS with optimization
-  async speakText(text: string, options: TTSOptions): Promise<void> {
+  async speakText(text: string, options: TTSOptions, signal?: AbortSignal): Promise<void> {
     try {
+      throwIfAborted(signal);
+      signal?.addEventListener('abort', () => Speech.stop(), { once: true });
+
+      // Registry codes map to the locale the speech engine expects
+      const locale = getLanguage(options.language)?.ttsLocale || options.language;
+      const isEnglish = locale.startsWith('en');
+
       const speechOptions = {
-        language: options.language,
+        language: locale,
         pitch: options.pitch || 1.0,
         rate: options.rate || 0.8,
         volume: options.volume || 1.0,
-        // Platform-specific optimizations
-        ...(Platform.OS === 'ios' && {
+        // Platform-specific optimizations (the compact voices only speak English)
+        ...(isEnglish && Platform.OS === 'ios' && {
           voice: 'com.apple.ttsbundle.Samantha-compact', // Use compact voice
         }),
-        ...(Platform.OS === 'android' && {
+        ...(isEnglish && Platform.OS === 'android' && {
           voice: 'en-us-x-sfg#male_1-local', // Use local voice
         }),
       };
@@ -1,38 +1,183 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import modelManager from './modelManager';
-import { getTranslationPrompt, getLanguageConfig, getLanguageDetectionPrompt } from '../config/gemmaConfig';
+import {
+  getTranslationPrompt,
+  getSamplingConfig,
+  getLanguageDetectionPrompt,
+  applyGlossaryToPrompt,
+  applyExamplesToPrompt,
+  applyRegisterToPrompt,
+  applyCodeMixedToPrompt,
+  applyMarkersToPrompt,
+  ERROR_CONFIG,
+  VALIDATION_CONFIG,
+  getPivotPolicy,
+  PivotPolicy,
+  QUALITY_CONFIG,
+  DEFAULT_REGISTER,
+  TRANSLATION_REGISTERS,
+  TranslationRegister,
+  DEFAULT_DIGIT_STYLE,
+  DIGIT_STYLES,
+  DigitStyle,
+} from '../config/gemmaConfig';
+import { GenerationParams, generateCandidates } from './translationEngine';
+import {
+  CacheEntry,
+  PersistentTranslationCache,
+  TranslationCandidate,
+  addTranslationCacheClearListener,
+  clearTranslationCache,
+} from './persistentTranslationCache';
+import { Segmentation, segmentText, reassembleSegments } from '../utils/textSegmenter';
+import glossaryService, { GlossaryEntry, matchGlossaryEntries, findMissingTerms } from './glossaryService';
+import translationMemory, { MemoryMatch } from './translationMemory';
+import promptPackService, { PromptPackMatch } from './promptPackService';
+import { delay, isAbortError, isTimeoutError, throwIfAborted } from '../utils/cancellation';
+import { QualityAssessment, assessTranslation, rankCandidates } from '../utils/qualityEstimation';
+import {
+  ValidationResult,
+  ValidationWarning,
+  cleanTranslationOutput,
+  countValidationErrors,
+  losesProtectedText,
+  mergeValidationWarnings,
+  validateTranslationOutput,
+} from '../utils/outputValidation';
+import {
+  RomanizedLanguage,
+  TRANSLITERATION_LANGUAGES,
+  detectRomanizedIndic,
+  latinLetterRatio,
+} from '../utils/transliteration';
+import { CodeMixAnalysis, analyzeCodeMixing, transliterateCodeMixed } from '../utils/codeMixing';
+import { LocaleEntity, protectLocaleEntities, restoreLocaleEntities } from '../utils/localeFormatting';
+import { ProtectedSpan, compileProtectedPatterns, maskProtectedSpans, unmaskProtectedSpans } from '../utils/entityMasking';
+import { INLINE_MARKUP_PATTERNS, MarkupFormat, parseMarkup, rebuildMarkup } from '../utils/markup';
+import { LanguageCandidate, dominantScript, identifyLanguageOffline } from '../utils/languageIdentifier';
+import { getLanguage, isSupportedLanguage } from '../config/languageRegistry';
 
 // Interface for translation request
-interface TranslationRequest {
+export interface TranslationRequest {
   text: string;
   fromLang: string;
   toLang: string;
   maxTokens?: number;
   streamOutput?: boolean;
+  qualityEstimation?: boolean; // Back-translate the output to score it (one extra model pass per segment)
+  alternatives?: number; // Distinct candidates to generate (1 = primary translation only)
+  register?: TranslationRegister; // Respect level; defaults to the user's setting for the target language
+  pivot?: PivotPolicy; // Overrides the configured route for the language pair
+  domain?: string; // Prompt pack domain, e.g. "medical"; defaults to "general"
+  format?: MarkupFormat; // Markdown or HTML keep their structure; only the text nodes are translated
 }
 
 // Interface for translation response
-interface TranslationResponse {
+export interface TranslationResponse {
   translatedText: string;
   confidence: number;
   detectedLanguage?: string;
   tokensUsed: number;
   processingTime: number;
+  isPartial?: boolean; // Generation was cut off before it finished
+  segmentCount: number; // Sentence chunks the input was split into
+  wasTruncated: boolean; // Input was dropped or output hit the token limit
+  missingTerms?: string[]; // Required glossary targets absent from the output
+  memoryMatchScore?: number; // Best translation memory score used (1 = exact hit, no inference)
+  qualityReasons?: string[]; // Problems found by quality estimation, empty when none
+  alternatives?: TranslationCandidate[]; // Ranked candidates when requested; the first is translatedText
+  mixRatio?: number; // Share of English words in Hindi/Nepali input (0 = none), when analyzed
+  pivotLanguage?: string; // Language the text was translated through, when pivoted
+  intermediateText?: string; // Translation into the pivot language
+  validationWarnings?: ValidationWarning[]; // Problems found in the model output, after retries
+  fallback?: boolean; // The engine failed and a stock phrase stands in; never cached
 }
 
+// Extra material injected into the prompt for a request
+interface PromptContext {
+  glossary: GlossaryEntry[]; // Glossary entries matched anywhere in the request text
+  examples: MemoryMatch[]; // Fuzzy translation memory matches used as few-shot examples
+  exactMatch?: MemoryMatch; // Translation memory hit that makes inference unnecessary
+  register: TranslationRegister; // Resolved from the request or the target language setting
+  codeMixing?: CodeMixAnalysis; // Per-word languages of Hindi/Nepali input that may mix in English
+  pack?: PromptPackMatch; // Few-shot prompt pack for the pair and domain
+  digits: DigitStyle; // Digits numbers are written in, from the user's setting
+  protectedPatterns: RegExp[]; // User-configured spans to keep verbatim, on top of the built-in ones
+}
+
+// Source text as sent to the model, with what each marker stands for
+interface MaskedSource {
+  text: string;
+  spans: ProtectedSpan[]; // URLs, emails, placeholders, code etc., restored verbatim
+  numbers: LocaleEntity[]; // Numbers, dates and amounts, re-rendered for the target
+}
+
+// Back-translations run without glossary or memory so they cannot echo the forward prompt
+const EMPTY_PROMPT_CONTEXT: PromptContext = {
+  glossary: [],
+  examples: [],
+  register: DEFAULT_REGISTER,
+  digits: DEFAULT_DIGIT_STYLE,
+  protectedPatterns: [],
+};
+
+// Per-item outcome of translateBatch, in input order
+export interface BatchItemResult {
+  index: number;
+  request: TranslationRequest;
+  result?: TranslationResponse;
+  error?: string;
+}
+
+export interface BatchOptions {
+  signal?: AbortSignal; // Cancels the items that have not finished yet
+  onProgress?: (progress: { completed: number; total: number; item: BatchItemResult }) => void;
+}
+
+// Why a batch item cannot be used as a translation (undefined when it can): an error, a stock
+// phrase standing in for a failed engine, or output that failed validation or quality checks
+export const batchItemFailure = (item: BatchItemResult): string | undefined => {
+  if (!item.result) {
+    return item.error || 'Translation failed';
+  }
+  if (item.result.fallback) {
+    return 'The translation model is unavailable';
+  }
+  if (item.result.confidence < QUALITY_CONFIG.lowConfidenceThreshold) {
+    const error = item.result.validationWarnings?.find(warning => warning.severity === 'error');
+    return error?.message || 'The translation failed its quality checks';
+  }
+  return undefined;
+};
+
+// Runs one model operation; either queued on its own or inside an existing model session
+type ModelRunner = <T>(operation: () => Promise<T>) => Promise<T>;
+
+// Result of translating a single segment
+type SegmentTranslation = Omit<TranslationResponse, 'processingTime' | 'segmentCount' | 'wasTruncated'>;
+
+// Result of converting romanized input to native script
+export interface RomanizedConversion {
+  text: string; // Native-script text (the input unchanged when nothing was converted)
+  converted: boolean;
+  language?: string; // Language the romanized text was read as
+}
+
+export interface IdentifyLanguageOptions {
+  topK?: number; // Number of ranked candidates to return
+  candidates?: string[]; // Restrict the result to these language codes
+}
+
+// Code returned when the input is too short or in a script no supported language uses
+export const UNKNOWN_LANGUAGE = 'unknown';
+
 // Interface for streaming response
 interface StreamingResponse {
   partialText: string;
   isComplete: boolean;
   confidence: number;
   tokensUsed: number;
-}
-
-// Cache with expiration
-interface CacheEntry {
-  text: string;
-  timestamp: number;
-  confidence: number;
+  isPartial?: boolean;
 }
 
 // Google Translate API response interface
@@ -49,8 +194,8 @@ interface GoogleTranslateResponse {
  * OptimizedTranslationService - Performance-Optimized Translation Service
  * 
  * OPTIMIZATION #7: Token Limiting - Reduced max tokens from 512 to 256
- * OPTIMIZATION #10: Cache Management - Priority-based caching with expiration
- * OPTIMIZATION #4: Streaming Output - Progressive translation results
+ * OPTIMIZATION #10: Cache Management - Priority-based caching with expiration, persisted to AsyncStorage
+ * OPTIMIZATION #4: Streaming Output - Tokens forwarded as the engine emits them
  * 
  * Why these optimizations:
  * - Token limiting caps memory usage during inference
@@ -64,17 +209,56 @@ export class OptimizedTranslationService {
   
   // OPTIMIZATION #10: Reduced cache size for memory optimization
   private readonly MAX_CACHE_SIZE = 500; // Reduced from 1000 for memory optimization
+
+  // OPTIMIZATION #10: Persistent tier so repeat phrases stay instant across restarts
+  private readonly CACHE_FLUSH_DELAY = 2000; // Batch disk writes every 2 seconds
+  private persistentCache: PersistentTranslationCache;
+  private cacheHydration: Promise<void> | null = null;
   
   // OPTIMIZATION #7: Token limiting to control memory usage during inference
   private readonly MAX_TOKENS = 256; // Reduced token limit
-  
-  // OPTIMIZATION #4: Streaming chunk size for progressive output
-  private readonly STREAM_CHUNK_SIZE = 32; // Tokens per chunk
+
+  // Long input is split into sentence chunks instead of being truncated
+  private readonly SEGMENT_INPUT_RATIO = 0.5; // Leave room for output longer than the source
+  private readonly MAX_SEGMENTS = 50;
+
+  // Translation memory matches at or above this score become few-shot examples
+  private readonly MEMORY_MIN_SCORE = 0.75;
+
+  // Each extra candidate costs a full generation per segment
+  private readonly MAX_ALTERNATIVES = 5;
+
+  // Offline identification at or above this probability skips the model
+  private readonly OFFLINE_DETECTION_CONFIDENCE = 0.8;
+  private readonly MIN_IDENTIFY_LETTERS = 4; // Shorter input is reported as unknown
+  private readonly DEFAULT_IDENTIFY_TOP_K = 3;
+
+  // Per-target-language register defaults chosen by the user
+  private readonly REGISTER_PREFERENCES_KEY = 'registerPreferences';
+  private registerPreferences: { [languageCode: string]: TranslationRegister } | null = null;
+
+  // Native or ASCII digits in translated numbers, chosen by the user
+  private readonly DIGIT_PREFERENCE_KEY = 'digitPreference';
+  private digitPreference: DigitStyle | null = null;
+
+  // Extra regular expressions whose matches are never translated
+  private readonly PROTECTED_PATTERNS_KEY = 'protectedPatterns';
+  private protectedPatterns: string[] | null = null;
 
   // Google Translate API configuration
   private readonly GOOGLE_TRANSLATE_API_URL = 'https://translation.googleapis.com/language/translate/v2';
 
   private constructor() {
+    this.persistentCache = new PersistentTranslationCache({
+      maxEntries: this.MAX_CACHE_SIZE,
+      expiryMs: this.CACHE_EXPIRY_HOURS * 3600000,
+      flushDelay: this.CACHE_FLUSH_DELAY,
+    });
+    // Whoever clears the cache (settings, ModelManager, MemoryManager), the in-memory tier goes too
+    addTranslationCacheClearListener(async () => {
+      this.translationCache.clear();
+      await this.persistentCache.discardPending();
+    });
     this.initializeCacheCleanup();
   }
 
@@ -92,299 +276,878 @@ export class OptimizedTranslationService {
     }, 3600000); // Clean up every hour
   }
 
+  // Load persisted entries on first use rather than at app startup
+  private ensureCacheHydrated(): Promise<void> {
+    if (!this.cacheHydration) {
+      this.cacheHydration = this.persistentCache.hydrate().then(entries => {
+        entries.forEach((entry, key) => {
+          if (!this.translationCache.has(key)) {
+            this.translationCache.set(key, entry);
+          }
+        });
+      });
+    }
+    return this.cacheHydration;
+  }
+
   // OPTIMIZATION #10: Main translation method with smart caching
   // Checks cache first to avoid repeated translations and reduce memory usage
-  async translateText(request: TranslationRequest): Promise<TranslationResponse> {
+  async translateText(request: TranslationRequest, signal?: AbortSignal): Promise<TranslationResponse> {
     const startTime = Date.now();
+    if (this.isMarkup(request)) {
+      return await this.translateMarkup(request, startTime, signal);
+    }
+    request = this.prepareSourceText(request);
     
     // OPTIMIZATION #10: Check cache first to avoid repeated work
-    const cacheKey = this.generateCacheKey(request);
+    await this.ensureCacheHydrated();
+
+    // Pairs routed through a pivot language run both legs in one queued session
+    const pivot = this.resolvePivot(request);
+    if (pivot) {
+      return await modelManager.executeWithGemma(async () => {
+        return await this.translateViaPivot(request, pivot, startTime, signal);
+      }, signal);
+    }
+
+    // Use model manager for lazy loading and queue management with Gemma 3n
+    // Each segment is queued in order so other requests can interleave
+    return await this.translateDirect(request, startTime, signal, (operation) => {
+      return modelManager.executeWithGemma(operation, signal);
+    });
+  }
+
+  // Translate one pair without pivoting: cache first, then translation memory, then the model
+  private async translateDirect(
+    request: TranslationRequest,
+    startTime: number,
+    signal: AbortSignal | undefined,
+    runModel: ModelRunner
+  ): Promise<TranslationResponse> {
+    const context = await this.buildPromptContext(request);
+    const cacheKey = this.generateCacheKey(request, context);
     const cachedResult = this.getFromCache(cacheKey);
     if (cachedResult) {
-      const entry = this.translationCache.get(cacheKey);
-      return {
-        translatedText: cachedResult,
-        confidence: entry?.confidence || 0.9,
-        tokensUsed: 0,
-        processingTime: Date.now() - startTime,
-      };
+      const cached = this.buildCachedResponse(request, cacheKey, cachedResult, context, startTime);
+      return await this.refreshCachedQuality(request, cacheKey, cached, signal, runModel);
     }
 
     // Validate input
     this.validateTranslationRequest(request);
 
-    // Use model manager for lazy loading and queue management with Gemma 3n
-    const result = await modelManager.executeWithGemma(async () => {
-      return await this.performGemmaTranslation(request);
-    });
+    // Exact translation memory hits skip inference entirely
+    if (context.exactMatch) {
+      return this.buildMemoryResponse(request, context.exactMatch, context, startTime);
+    }
+
+    return await this.translateWithModel(request, context, cacheKey, startTime, signal, runModel);
+  }
+
+  // Pivot language for the request's pair (undefined when it is translated directly)
+  private resolvePivot(request: TranslationRequest): string | undefined {
+    const policy = getPivotPolicy(request.fromLang, request.toLang, request.pivot);
+    return policy === 'direct' ? undefined : policy;
+  }
+
+  // Alternatives and register only matter for the text the user sees, not the pivot leg
+  private firstLegRequest(request: TranslationRequest, pivot: string): TranslationRequest {
+    return { ...request, toLang: pivot, alternatives: undefined, register: undefined };
+  }
+
+  // Translate into the pivot language and on into the target; must run inside executeWithGemma.
+  // Each leg is an ordinary pair, so it is cached on its own and reused by direct requests
+  private async translateViaPivot(
+    request: TranslationRequest,
+    pivot: string,
+    startTime: number,
+    signal?: AbortSignal
+  ): Promise<TranslationResponse> {
+    const runModel: ModelRunner = (operation) => operation();
+
+    const first = await this.translateDirect(
+      this.firstLegRequest(request, pivot),
+      Date.now(),
+      signal,
+      runModel
+    );
+    throwIfAborted(signal);
+    const second = await this.translateDirect(
+      { ...request, text: first.translatedText, fromLang: pivot },
+      Date.now(),
+      signal,
+      runModel
+    );
 
-    // Cache the result
-    this.addToCache(cacheKey, result.translatedText, result.confidence);
+    const pivotName = getLanguage(pivot)?.name || pivot;
+    const reasons = first.qualityReasons || second.qualityReasons
+      ? [...(first.qualityReasons || []).map(reason => `${pivotName} pivot: ${reason}`), ...(second.qualityReasons || [])]
+      : undefined;
 
     return {
-      ...result,
+      ...second,
+      confidence: Math.min(first.confidence, second.confidence),
+      detectedLanguage: request.fromLang,
+      tokensUsed: first.tokensUsed + second.tokensUsed,
       processingTime: Date.now() - startTime,
+      isPartial: first.isPartial || second.isPartial,
+      segmentCount: first.segmentCount,
+      wasTruncated: first.wasTruncated || second.wasTruncated,
+      qualityReasons: reasons,
+      validationWarnings: mergeValidationWarnings([first.validationWarnings, second.validationWarnings]),
+      mixRatio: first.mixRatio,
+      pivotLanguage: pivot,
+      intermediateText: first.translatedText,
+      fallback: first.fallback || second.fallback || undefined,
     };
   }
 
-  // Perform translation using Gemma 3n model
-  private async performGemmaTranslation(request: TranslationRequest): Promise<Omit<TranslationResponse, 'processingTime'>> {
-    const maxTokens = request.maxTokens || this.MAX_TOKENS;
-    const languageConfig = getLanguageConfig(request.fromLang);
-    
-    // Truncate input if too long
-    const truncatedText = this.truncateTextForTokens(request.text, maxTokens);
-    
-    // Get the appropriate translation prompt
-    const prompt = getTranslationPrompt(request.fromLang, request.toLang)
-      .replace('{text}', truncatedText);
+  // Translate segment by segment through the model and cache the reassembled result
+  private async translateWithModel(
+    request: TranslationRequest,
+    context: PromptContext,
+    cacheKey: string,
+    startTime: number,
+    signal: AbortSignal | undefined,
+    runModel: ModelRunner
+  ): Promise<TranslationResponse> {
+    // Split long input into sentence chunks that fit the token budget
+    const segmentation = this.segmentRequest(request);
+    const translations: string[] = [];
+    const segmentWarnings: Array<ValidationWarning[] | undefined> = [];
+    let tokensUsed = 0;
+    let confidence = 1;
+    let wasTruncated = segmentation.truncated;
+    let fallback = false;
 
-    try {
-      // Use Gemma 3n model for translation
-      const translatedText = await this.generateGemmaTranslation({
-        prompt,
-        maxTokens,
-        temperature: languageConfig.temperature,
-        topP: 0.9,
-        topK: 40,
+    for (const segment of segmentation.segments) {
+      throwIfAborted(signal);
+      const result = await runModel(async () => {
+        return await this.performGemmaTranslation({ ...request, text: segment.text }, context, signal);
+      });
+      translations.push(result.translatedText);
+      segmentWarnings.push(result.validationWarnings);
+      tokensUsed += result.tokensUsed;
+      confidence = Math.min(confidence, result.confidence);
+      wasTruncated = wasTruncated || !!result.isPartial;
+      fallback = fallback || !!result.fallback;
+    }
+    const validationWarnings = mergeValidationWarnings(segmentWarnings);
+
+    const alternatives = await this.generateAlternatives(request, context, segmentation, translations, signal, runModel);
+    const translatedText = alternatives ? alternatives[0].text : reassembleSegments(segmentation, translations);
+    const quality = await this.estimateQuality(request, translatedText, signal, runModel);
+    confidence = Math.min(confidence, quality.confidence);
+
+    // Cache the result (truncated output, output that failed validation after every retry,
+    // or a stock phrase standing in for a failed engine is not worth reusing)
+    if (!wasTruncated && !fallback && countValidationErrors(validationWarnings) === 0) {
+      this.addToCache(cacheKey, {
+        text: translatedText,
+        confidence,
+        reasons: quality.reasons,
+        backTranslated: quality.similarity !== undefined,
+        alternatives,
+        warnings: validationWarnings,
       });
+    }
+
+    return {
+      translatedText,
+      confidence,
+      detectedLanguage: request.fromLang,
+      tokensUsed,
+      processingTime: Date.now() - startTime,
+      segmentCount: segmentation.segments.length,
+      wasTruncated,
+      missingTerms: this.checkGlossaryTerms(translatedText, context),
+      memoryMatchScore: context.examples[0]?.score,
+      qualityReasons: quality.reasons,
+      alternatives,
+      mixRatio: context.codeMixing?.mixRatio,
+      validationWarnings,
+      fallback: fallback || undefined,
+    };
+  }
+
+  // Sample extra candidates per segment with different seeds and rank them with the primary
+  // output; the k-th full candidate joins every segment's k-th best (undefined when not requested)
+  private async generateAlternatives(
+    request: TranslationRequest,
+    context: PromptContext,
+    segmentation: Segmentation,
+    primary: string[],
+    signal: AbortSignal | undefined,
+    runModel: ModelRunner
+  ): Promise<TranslationCandidate[] | undefined> {
+    const count = this.alternativeCount(request);
+    if (count <= 1) {
+      return undefined;
+    }
+
+    const seeds = Array.from({ length: count - 1 }, (_, i) => i + 1);
+    const rankedSegments: TranslationCandidate[][] = [];
 
+    for (let index = 0; index < segmentation.segments.length; index++) {
+      throwIfAborted(signal);
+      const segmentRequest = { ...request, text: segmentation.segments[index].text };
+      let sampled: string[] = [];
+      try {
+        const generations = await runModel(async () => {
+          const params = { ...this.buildGenerationParams(segmentRequest, context), signal };
+          return await generateCandidates(modelManager.getGemmaEngine(), params, seeds);
+        });
+        // Candidates that fail validation are not worth offering
+        sampled = generations
+          .map(generation => this.validateOutput(segmentRequest, context, generation.text))
+          .filter(validation => validation.valid)
+          .map(validation => validation.text);
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.error('Alternative translation error:', error);
+      }
+
+      rankedSegments.push(rankCandidates([primary[index], ...sampled], {
+        source: segmentRequest.text,
+        fromLang: request.fromLang,
+        toLang: request.toLang,
+      }));
+    }
+
+    const depth = Math.max(...rankedSegments.map(ranked => ranked.length));
+    const candidates: TranslationCandidate[] = [];
+    for (let k = 0; k < depth; k++) {
+      const picks = rankedSegments.map(ranked => ranked[k] || ranked[0]);
+      const text = reassembleSegments(segmentation, picks.map(pick => pick.text));
+      if (!candidates.some(candidate => candidate.text === text)) {
+        candidates.push({ text, score: picks.reduce((sum, pick) => sum + pick.score, 0) / picks.length });
+      }
+    }
+
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  private alternativeCount(request: TranslationRequest): number {
+    return Math.max(1, Math.min(request.alternatives || 1, this.MAX_ALTERNATIVES));
+  }
+
+  // Make a candidate the preferred translation: it is served first from the cache
+  // and stored in translation memory so it is reused after the cache expires
+  async pinAlternative(request: TranslationRequest, text: string): Promise<void> {
+    await this.ensureCacheHydrated();
+
+    // Alternatives of a pivoted pair belong to its second leg
+    const pivot = this.resolvePivot(request);
+    const leg = pivot ? await this.findSecondLeg(request, pivot) : request;
+    const context = leg ? await this.buildPromptContext(leg) : undefined;
+    const cacheKey = leg && context ? this.generateCacheKey(leg, context) : undefined;
+    const entry = cacheKey ? this.translationCache.get(cacheKey) : undefined;
+
+    if (cacheKey && entry) {
+      const others = (entry.alternatives || []).filter(candidate => candidate.text !== text);
+      const pinned = entry.alternatives?.find(candidate => candidate.text === text);
+      this.addToCache(cacheKey, {
+        ...entry,
+        text,
+        alternatives: [
+          { text, score: pinned?.score ?? entry.confidence, pinned: true },
+          ...others.map(candidate => ({ ...candidate, pinned: false })),
+        ],
+      });
+    }
+
+    await this.approveTranslation(request, text);
+  }
+
+  // Second-leg request of a pivoted translation, rebuilt from the cached first leg
+  private async findSecondLeg(request: TranslationRequest, pivot: string): Promise<TranslationRequest | undefined> {
+    const first = this.firstLegRequest(request, pivot);
+    const context = await this.buildPromptContext(first);
+    const intermediate = this.translationCache.get(this.generateCacheKey(first, context))?.text
+      ?? context.exactMatch?.segment.target;
+    return intermediate === undefined ? undefined : { ...request, text: intermediate, fromLang: pivot };
+  }
+
+  // Score a finished translation, back-translating it first when the request asks for it
+  private async estimateQuality(
+    request: TranslationRequest,
+    translatedText: string,
+    signal: AbortSignal | undefined,
+    runModel: ModelRunner
+  ): Promise<QualityAssessment> {
+    const backTranslation = request.qualityEstimation
+      ? await this.backTranslate(request, translatedText, signal, runModel)
+      : undefined;
+
+    return assessTranslation({
+      source: request.text,
+      translation: translatedText,
+      fromLang: request.fromLang,
+      toLang: request.toLang,
+      backTranslation,
+    });
+  }
+
+  // Translate the output back into the source language (undefined if the model was unavailable)
+  private async backTranslate(
+    request: TranslationRequest,
+    translatedText: string,
+    signal: AbortSignal | undefined,
+    runModel: ModelRunner
+  ): Promise<string | undefined> {
+    const reverse: TranslationRequest = { ...request, text: translatedText, fromLang: request.toLang, toLang: request.fromLang };
+    const segmentation = this.segmentRequest(reverse);
+    const translations: string[] = [];
+
+    for (const segment of segmentation.segments) {
+      throwIfAborted(signal);
+      let result: SegmentTranslation;
+      try {
+        result = await runModel(async () => {
+          return await this.performGemmaTranslation({ ...reverse, text: segment.text }, EMPTY_PROMPT_CONTEXT, signal);
+        });
+      } catch (error) {
+        // The translation itself is done; a slow back-translation only leaves it unverified
+        if (isTimeoutError(error)) {
+          console.warn('Back-translation timed out:', error);
+          return undefined;
+        }
+        throw error;
+      }
+
+      // A phrase-table fallback says nothing about this translation
+      if (result.fallback) {
+        return undefined;
+      }
+      translations.push(result.translatedText);
+    }
+
+    return reassembleSegments(segmentation, translations);
+  }
+
+  // Back-translate a cache hit that was stored without one when the request asks for it
+  private async refreshCachedQuality(
+    request: TranslationRequest,
+    cacheKey: string,
+    cached: TranslationResponse,
+    signal: AbortSignal | undefined,
+    runModel: ModelRunner
+  ): Promise<TranslationResponse> {
+    const entry = this.translationCache.get(cacheKey);
+    if (!request.qualityEstimation || !entry || entry.backTranslated) {
+      return cached;
+    }
+
+    const quality = await this.estimateQuality(request, cached.translatedText, signal, runModel);
+    this.addToCache(cacheKey, {
+      ...entry,
+      confidence: quality.confidence,
+      reasons: quality.reasons,
+      backTranslated: quality.similarity !== undefined,
+    });
+    return { ...cached, confidence: quality.confidence, qualityReasons: quality.reasons };
+  }
+
+  // Translate many requests at once: duplicates are translated once, cache and
+  // memory hits are served immediately and the rest share a single model session.
+  // Items with a markup format are treated as single text nodes with their inline markup kept
+  async translateBatch(requests: TranslationRequest[], options: BatchOptions = {}): Promise<BatchItemResult[]> {
+    requests = requests.map(request => this.prepareSourceText(request));
+    const results: BatchItemResult[] = requests.map((request, index) => ({ index, request }));
+    const total = requests.length;
+    let completed = 0;
+
+    // Group identical inputs so each is translated once
+    const groups = new Map<string, number[]>();
+    requests.forEach((request, index) => {
+      const key = `${request.fromLang}\u0000${request.toLang}\u0000${request.maxTokens || ''}\u0000${request.qualityEstimation ? 'q' : ''}\u0000${this.alternativeCount(request)}\u0000${request.register || ''}\u0000${request.pivot || ''}\u0000${request.domain || ''}\u0000${request.format || ''}\u0000${request.text}`;
+      groups.set(key, [...(groups.get(key) || []), index]);
+    });
+
+    const settle = (indices: number[], outcome: { result?: TranslationResponse; error?: string }) => {
+      for (const index of indices) {
+        results[index] = { ...results[index], ...outcome };
+        completed++;
+        options.onProgress?.({ completed, total, item: results[index] });
+      }
+    };
+
+    await this.ensureCacheHydrated();
+    throwIfAborted(options.signal);
+    const pending: Array<{ indices: number[]; context: PromptContext; cacheKey: string; startTime: number }> = [];
+    const pivoted: Array<{ indices: number[]; pivot: string; startTime: number }> = [];
+
+    for (const indices of groups.values()) {
+      const request = requests[indices[0]];
+      const startTime = Date.now();
+
+      // Pivoted pairs look up each leg inside the shared session
+      const pivot = this.resolvePivot(request);
+      if (pivot) {
+        pivoted.push({ indices, pivot, startTime });
+        continue;
+      }
+
+      try {
+        const context = await this.buildPromptContext(request);
+        const cacheKey = this.generateCacheKey(request, context);
+        const cachedResult = this.getFromCache(cacheKey);
+        if (cachedResult) {
+          settle(indices, { result: this.buildCachedResponse(request, cacheKey, cachedResult, context, startTime) });
+          continue;
+        }
+
+        this.validateTranslationRequest(request);
+        if (context.exactMatch) {
+          settle(indices, { result: this.buildMemoryResponse(request, context.exactMatch, context, startTime) });
+          continue;
+        }
+
+        pending.push({ indices, context, cacheKey, startTime });
+      } catch (error) {
+        settle(indices, { error: error instanceof Error ? error.message : 'Translation failed' });
+      }
+    }
+
+    if (pending.length === 0 && pivoted.length === 0) {
+      return results;
+    }
+
+    // One queued job for the remaining items; the model is loaded and checked once
+    await modelManager.executeWithGemma(async () => {
+      for (const item of pending) {
+        throwIfAborted(options.signal);
+        const request = requests[item.indices[0]];
+        try {
+          const result = await this.translateWithModel(
+            request,
+            item.context,
+            item.cacheKey,
+            item.startTime,
+            options.signal,
+            (operation) => operation()
+          );
+          settle(item.indices, { result });
+        } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
+          settle(item.indices, { error: error instanceof Error ? error.message : 'Translation failed' });
+        }
+      }
+
+      for (const item of pivoted) {
+        throwIfAborted(options.signal);
+        const request = requests[item.indices[0]];
+        try {
+          settle(item.indices, { result: await this.translateViaPivot(request, item.pivot, item.startTime, options.signal) });
+        } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
+          settle(item.indices, { error: error instanceof Error ? error.message : 'Translation failed' });
+        }
+      }
+    }, options.signal).catch((error) => {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      // Model failed to load: every remaining item fails individually
+      const message = error instanceof Error ? error.message : 'Translation failed';
+      for (const item of [...pending, ...pivoted]) {
+        if (!results[item.indices[0]].result && !results[item.indices[0]].error) {
+          settle(item.indices, { error: message });
+        }
+      }
+    });
+
+    return results;
+  }
+
+  private isMarkup(request: TranslationRequest): boolean {
+    return request.format === 'markdown' || request.format === 'html';
+  }
+
+  // Translate the text nodes of a Markdown or HTML document as one batch and rebuild it around them.
+  // Code blocks, tags and link targets are copied as they are; a node that fails, falls back to the
+  // phrase table or loses inline markup keeps its source text
+  private async translateMarkup(
+    request: TranslationRequest,
+    startTime: number,
+    signal?: AbortSignal
+  ): Promise<TranslationResponse> {
+    const nodes = parseMarkup(request.text, request.format!);
+    const textNodes = nodes.filter(node => node.translate);
+
+    // Only code, links or markup: nothing to translate, the document is already complete
+    if (textNodes.length === 0) {
       return {
-        translatedText: this.cleanTranslationOutput(translatedText),
-        confidence: 0.85, // Gemma 3n is quite reliable for translation
+        translatedText: request.text,
+        confidence: 1,
         detectedLanguage: request.fromLang,
-        tokensUsed: this.estimateTokenCount(translatedText),
+        tokensUsed: 0,
+        processingTime: Date.now() - startTime,
+        segmentCount: 0,
+        wasTruncated: false,
       };
+    }
+
+    const items = await this.translateBatch(
+      textNodes.map(node => ({ ...request, text: node.text, alternatives: undefined })),
+      { signal }
+    );
+    const usable = (result?: TranslationResponse): result is TranslationResponse => {
+      return !!result && !result.fallback && !losesProtectedText(result.validationWarnings);
+    };
+    const results = items.map(item => item.result).filter(usable);
+    if (results.length === 0) {
+      const fallback = items.some(item => item.result?.fallback);
+      throw new Error(items.find(item => item.error)?.error
+        || (fallback ? 'The translation model is unavailable' : 'The translation dropped links or formatting'));
+    }
+
+    const reasons = Array.from(new Set(results.flatMap(result => result.qualityReasons || [])));
+    const failed = items.filter(item => !item.result || item.result.fallback).length;
+    if (failed > 0) {
+      reasons.push(`${failed} of ${items.length} text blocks were left untranslated`);
+    }
+    const broken = items.filter(item => item.result && !item.result.fallback && !usable(item.result)).length;
+    if (broken > 0) {
+      reasons.push(`${broken} of ${items.length} text blocks were left untranslated to keep their links and formatting`);
+    }
+    const missingTerms = Array.from(new Set(results.flatMap(result => result.missingTerms || [])));
+    const warnings = mergeValidationWarnings(results.map(result => result.validationWarnings));
+
+    return {
+      translatedText: rebuildMarkup(nodes, items.map((item, index) => {
+        return usable(item.result) ? item.result.translatedText : textNodes[index].text;
+      })),
+      confidence: Math.min(...results.map(result => result.confidence)),
+      tokensUsed: items.reduce((sum, item) => sum + (item.result?.tokensUsed || 0), 0),
+      processingTime: Date.now() - startTime,
+      isPartial: results.length < items.length || results.some(result => result.isPartial),
+      segmentCount: results.reduce((sum, result) => sum + result.segmentCount, 0),
+      wasTruncated: results.some(result => result.wasTruncated),
+      missingTerms: missingTerms.length > 0 ? missingTerms : undefined,
+      qualityReasons: reasons,
+      validationWarnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  // Romanized Hindi/Nepali ("aap kaise ho") is converted to native script before translation;
+  // English words mixed into it ("meeting cancel ho gayi") stay in Latin script
+  private prepareSourceText(request: TranslationRequest): TranslationRequest {
+    const language = request.fromLang as RomanizedLanguage;
+    if (!TRANSLITERATION_LANGUAGES.includes(language) || latinLetterRatio(request.text) < 0.8) {
+      return request;
+    }
+    return { ...request, text: transliterateCodeMixed(request.text, language) };
+  }
+
+  // Convert romanized Hindi/Nepali to native script so the user can confirm it before translation
+  convertRomanizedInput(text: string, languageCode?: string): RomanizedConversion {
+    const language = languageCode && TRANSLITERATION_LANGUAGES.includes(languageCode as RomanizedLanguage)
+      ? languageCode as RomanizedLanguage
+      : detectRomanizedIndic(text)?.language;
+
+    if (!language || latinLetterRatio(text) < 0.8) {
+      return { text, converted: false };
+    }
+    return { text: transliterateCodeMixed(text, language), converted: true, language };
+  }
+
+  // Tag each word of Hindi/Nepali input as English or native (undefined for other languages)
+  analyzeCodeMixing(text: string, languageCode: string): CodeMixAnalysis | undefined {
+    const language = languageCode as RomanizedLanguage;
+    if (!TRANSLITERATION_LANGUAGES.includes(language)) {
+      return undefined;
+    }
+    const native = latinLetterRatio(text) >= 0.8 ? transliterateCodeMixed(text, language) : text;
+    return analyzeCodeMixing(native, language);
+  }
+
+  // Gather glossary entries and translation memory matches that apply to the request
+  private async buildPromptContext(request: TranslationRequest): Promise<PromptContext> {
+    const [glossary, memoryMatches, register, pack, digits, patterns] = await Promise.all([
+      glossaryService.findMatches(request.text, request.fromLang, request.toLang),
+      translationMemory.lookup(request.text, request.fromLang, request.toLang, { minScore: this.MEMORY_MIN_SCORE }),
+      request.register ? Promise.resolve(request.register) : this.loadRegisterPreference(request.toLang),
+      promptPackService.findPack(request.fromLang, request.toLang, request.domain),
+      this.loadDigitPreference(),
+      this.loadProtectedPatterns(),
+    ]);
+
+    const exactMatch = memoryMatches.find(match => match.score >= 1);
+    return {
+      glossary,
+      examples: exactMatch ? [] : memoryMatches,
+      exactMatch,
+      register,
+      codeMixing: this.analyzeCodeMixing(request.text, request.fromLang),
+      pack,
+      digits,
+      protectedPatterns: compileProtectedPatterns(patterns),
+    };
+  }
+
+  // Response served straight from translation memory
+  private buildMemoryResponse(
+    request: TranslationRequest,
+    match: MemoryMatch,
+    context: PromptContext,
+    startTime: number
+  ): TranslationResponse {
+    return {
+      translatedText: match.segment.target,
+      confidence: 0.95, // Approved by a person, but matched after normalization
+      detectedLanguage: request.fromLang,
+      tokensUsed: 0,
+      processingTime: Date.now() - startTime,
+      segmentCount: 1,
+      wasTruncated: false,
+      missingTerms: this.checkGlossaryTerms(match.segment.target, context),
+      memoryMatchScore: match.score,
+      mixRatio: context.codeMixing?.mixRatio,
+    };
+  }
+
+  // Store a translation the user approved so future requests can reuse it
+  async approveTranslation(request: TranslationRequest, translatedText: string): Promise<void> {
+    await translationMemory.addSegment(request.fromLang, request.toLang, request.text, translatedText);
+  }
+
+  // Response for a cache hit
+  private buildCachedResponse(
+    request: TranslationRequest,
+    cacheKey: string,
+    cachedText: string,
+    context: PromptContext,
+    startTime: number
+  ): TranslationResponse {
+    const entry = this.translationCache.get(cacheKey);
+    return {
+      translatedText: cachedText,
+      confidence: entry?.confidence ?? 0.9,
+      tokensUsed: 0,
+      processingTime: Date.now() - startTime,
+      segmentCount: this.segmentRequest(request).segments.length,
+      wasTruncated: false,
+      missingTerms: this.checkGlossaryTerms(cachedText, context),
+      qualityReasons: entry?.reasons,
+      alternatives: entry?.alternatives,
+      mixRatio: context.codeMixing?.mixRatio,
+      validationWarnings: entry?.warnings,
+    };
+  }
+
+  // Required glossary targets missing from the output (undefined when no glossary applies)
+  private checkGlossaryTerms(output: string, context: PromptContext): string[] | undefined {
+    if (context.glossary.length === 0) {
+      return undefined;
+    }
+    const missing = findMissingTerms(output, context.glossary);
+    if (missing.length > 0) {
+      console.warn(`Translation is missing glossary terms: ${missing.join(', ')}`);
+    }
+    return missing;
+  }
+
+  // Split request text into segments sized for the token budget
+  private segmentRequest(request: TranslationRequest): Segmentation {
+    const maxTokens = request.maxTokens || this.MAX_TOKENS;
+    return segmentText(request.text, {
+      maxTokens: Math.max(1, Math.floor(maxTokens * this.SEGMENT_INPUT_RATIO)),
+      maxSegments: this.MAX_SEGMENTS,
+      countTokens: (text) => this.estimateTokenCount(text),
+    });
+  }
+
+  // Perform translation using Gemma 3n model
+  private async performGemmaTranslation(
+    request: TranslationRequest,
+    context: PromptContext,
+    signal?: AbortSignal,
+    firstAttempt: number = 0
+  ): Promise<SegmentTranslation> {
+    // Best attempt so far, kept if a later attempt fails outright
+    let best: { validation: ValidationResult; isPartial: boolean } | undefined;
+    let tokensUsed = 0;
+    const bestResult = (): SegmentTranslation => ({
+      translatedText: this.keepProtectedText(request, best!.validation),
+      // Refined by quality estimation once the full output is known
+      confidence: best!.validation.valid ? 1 : VALIDATION_CONFIG.failedConfidence,
+      detectedLanguage: request.fromLang,
+      tokensUsed,
+      isPartial: best!.isPartial,
+      validationWarnings: best!.validation.warnings,
+    });
+
+    try {
+      // Use Gemma 3n model for translation; output failing validation is regenerated
+      // with cooler sampling and a fresh seed, keeping the attempt with fewest errors
+      const params = this.buildGenerationParams(request, context);
+      const seen = new Set<string>();
+
+      for (let attempt = firstAttempt; attempt <= ERROR_CONFIG.retryAttempts; attempt++) {
+        if (attempt > firstAttempt) {
+          await delay(ERROR_CONFIG.retryDelay, signal);
+        }
+        const generation = await this.generateGemmaTranslation({ ...this.retryParams(params, attempt), signal });
+        const validation = this.validateOutput(request, context, generation.text);
+        tokensUsed += generation.tokensUsed;
+
+        if (!best || countValidationErrors(validation.warnings) < countValidationErrors(best.validation.warnings)) {
+          best = { validation, isPartial: generation.finishReason === 'length' };
+        }
+
+        // A repeated answer means the engine is deterministic here; retrying will not help
+        if (validation.valid || seen.has(validation.text)) {
+          break;
+        }
+        seen.add(validation.text);
+        console.warn(`Translation attempt ${attempt + 1} failed validation:`, validation.warnings.map(w => w.code).join(', '));
+      }
+
+      return bestResult();
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Gemma translation error:', error);
-      
+
+      // A retry failed: an earlier attempt's output (flagged by validation) beats the phrase table
+      if (best) {
+        return bestResult();
+      }
+      // Timeouts are not model failures; never mask them with the fallback
+      if (isTimeoutError(error)) {
+        throw error;
+      }
+
       // Fallback to simple translation mapping for common phrases
       return this.fallbackTranslation(request);
     }
   }
 
-  // Generate translation using Gemma 3n model
-  private async generateGemmaTranslation(params: {
-    prompt: string;
-    maxTokens: number;
-    temperature: number;
-    topP: number;
-    topK: number;
-  }): Promise<string> {
-    // In a real implementation, this would call the actual Gemma 3n model
-    // For now, we'll simulate the model inference with realistic behavior
+  // Build the prompt and sampling parameters for a request
+  private buildGenerationParams(request: TranslationRequest, context: PromptContext): GenerationParams {
+    const sampling = getSamplingConfig(request.fromLang);
+    const maxTokens = Math.min(request.maxTokens || this.MAX_TOKENS, sampling.maxTokens);
     
-    // Simulate model processing time (typically 1-3 seconds for Gemma 3n)
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    // Extract the translation from the prompt
-    const fromLang = this.extractLanguageFromPrompt(params.prompt);
-    const toLang = this.extractTargetLanguageFromPrompt(params.prompt);
-    
-    // Simulate Gemma 3n translation based on language pair
-    return this.simulateGemmaTranslation(fromLang, toLang, params.prompt);
-  }
+    // Protected spans and numbers reach the model as markers and are restored afterwards
+    const masked = this.maskSource(request, context);
 
-  // Simulate Gemma 3n translation with realistic responses
-  private simulateGemmaTranslation(fromLang: string, toLang: string, prompt: string): string {
-    // Extract the original text from the prompt
-    const textMatch = prompt.match(/["""]([^"""]+)["""]/);
-    const originalText = textMatch ? textMatch[1] : '';
-    
-    // Realistic translations that Gemma 3n would produce
-    const gemmaTranslations: { [key: string]: { [key: string]: (text: string) => string } } = {
-      'en': {
-        'hi': (text: string) => {
-          const translations: { [key: string]: string } = {
-            'hello': 'नमस्ते',
-            'how are you': 'आप कैसे हैं',
-            'good morning': 'सुप्रभात',
-            'thank you': 'धन्यवाद',
-            'goodbye': 'अलविदा',
-            'what is your name': 'आपका नाम क्या है',
-            'nice to meet you': 'आपसे मिलकर खुशी हुई',
-            'where are you from': 'आप कहाँ से हैं',
-            'i love you': 'मैं आपसे प्यार करता हूँ',
-            'good night': 'शुभ रात्रि',
-          };
-          
-          const lowerText = text.toLowerCase();
-          for (const [key, value] of Object.entries(translations)) {
-            if (lowerText.includes(key)) {
-              return value;
-            }
-          }
-          
-          // For unknown text, provide a contextual translation
-          return `[${text} का हिंदी अनुवाद]`;
-        },
-        'ne': (text: string) => {
-          const translations: { [key: string]: string } = {
-            'hello': 'नमस्ते',
-            'how are you': 'तपाईं कसरी हुनुहुन्छ',
-            'good morning': 'शुभ प्रभात',
-            'thank you': 'धन्यवाद',
-            'goodbye': 'अलविदा',
-            'what is your name': 'तपाईंको नाम के हो',
-            'nice to meet you': 'तपाईंलाई भेटेर खुशी लाग्यो',
-            'where are you from': 'तपाईं कहाँबाट हुनुहुन्छ',
-            'i love you': 'म तपाईंलाई माया गर्छु',
-            'good night': 'शुभ रात्री',
-          };
-          
-          const lowerText = text.toLowerCase();
-          for (const [key, value] of Object.entries(translations)) {
-            if (lowerText.includes(key)) {
-              return value;
-            }
-          }
-          
-          return `[${text} को नेपाली अनुवाद]`;
-        },
-        'es': (text: string) => {
-          const translations: { [key: string]: string } = {
-            'hello': 'Hola',
-            'how are you': '¿Cómo estás?',
-            'good morning': 'Buenos días',
-            'thank you': 'Gracias',
-            'goodbye': 'Adiós',
-            'what is your name': '¿Cómo te llamas?',
-            'nice to meet you': 'Encantado de conocerte',
-            'where are you from': '¿De dónde eres?',
-            'i love you': 'Te quiero',
-            'good night': 'Buenas noches',
-          };
-          
-          const lowerText = text.toLowerCase();
-          for (const [key, value] of Object.entries(translations)) {
-            if (lowerText.includes(key)) {
-              return value;
-            }
-          }
-          
-          return `[Traducción al español: ${text}]`;
-        },
-      },
-      'hi': {
-        'en': (text: string) => {
-          const translations: { [key: string]: string } = {
-            'नमस्ते': 'Hello',
-            'आप कैसे हैं': 'How are you',
-            'सुप्रभात': 'Good morning',
-            'धन्यवाद': 'Thank you',
-            'अलविदा': 'Goodbye',
-            'आपका नाम क्या है': 'What is your name',
-            'आपसे मिलकर खुशी हुई': 'Nice to meet you',
-            'आप कहाँ से हैं': 'Where are you from',
-            'मैं आपसे प्यार करता हूँ': 'I love you',
-            'शुभ रात्रि': 'Good night',
-          };
-          
-          for (const [key, value] of Object.entries(translations)) {
-            if (text.includes(key)) {
-              return value;
-            }
-          }
-          
-          return `[English translation: ${text}]`;
-        },
-      },
-      'ne': {
-        'en': (text: string) => {
-          const translations: { [key: string]: string } = {
-            'नमस्ते': 'Hello',
-            'तपाईं कसरी हुनुहुन्छ': 'How are you',
-            'शुभ प्रभात': 'Good morning',
-            'धन्यवाद': 'Thank you',
-            'अलविदा': 'Goodbye',
-            'तपाईंको नाम के हो': 'What is your name',
-            'तपाईंलाई भेटेर खुशी लाग्यो': 'Nice to meet you',
-            'तपाईं कहाँबाट हुनुहुन्छ': 'Where are you from',
-            'म तपाईंलाई माया गर्छु': 'I love you',
-            'शुभ रात्री': 'Good night',
-          };
-          
-          for (const [key, value] of Object.entries(translations)) {
-            if (text.includes(key)) {
-              return value;
-            }
-          }
-          
-          return `[English translation: ${text}]`;
-        },
-      },
-    };
+    // Get the appropriate translation prompt
+    const basePrompt = applyRegisterToPrompt(
+      applyMarkersToPrompt(
+        getTranslationPrompt(request.fromLang, request.toLang, context.pack?.entry).replace('{text}', masked.text),
+        masked.spans.length + masked.numbers.length
+      ),
+      context.register,
+      request.toLang
+    );
 
-    const translator = gemmaTranslations[fromLang]?.[toLang];
-    if (translator) {
-      return translator(originalText);
-    }
+    // Code-mixed input keeps the English terms the user chose
+    const mixedPrompt = context.codeMixing?.isCodeMixed
+      ? applyCodeMixedToPrompt(
+          basePrompt,
+          context.codeMixing.matrixLanguage,
+          context.codeMixing.englishTerms.filter(term => request.text.includes(term))
+        )
+      : basePrompt;
 
-    // Fallback for unsupported language pairs
-    return `[Gemma 3n translation from ${fromLang} to ${toLang}: ${originalText}]`;
+    // Only the glossary terms present in this segment are worth the prompt space
+    const prompt = applyExamplesToPrompt(
+      applyGlossaryToPrompt(mixedPrompt, matchGlossaryEntries(request.text, context.glossary)),
+      context.examples.map(match => match.segment)
+    );
+
+    return {
+      prompt,
+      maxTokens,
+      temperature: sampling.temperature,
+      topP: sampling.topP,
+      topK: sampling.topK,
+    };
+  }
+
+  // Generate translation using the engine loaded by ModelManager
+  private async generateGemmaTranslation(params: GenerationParams) {
+    return await modelManager.getGemmaEngine().generate(params);
   }
 
   // Clean up translation output (remove extra formatting)
-  private cleanTranslationOutput(text: string): string {
-    // Remove any extra formatting or brackets that might be added
-    return text.replace(/^\[|\]$/g, '').trim();
+  private cleanTranslationOutput(text: string, request: TranslationRequest, masked: MaskedSource): string {
+    // Restore protected text, then remove brackets, echoed labels and quotes the model may add
+    return cleanTranslationOutput(this.unmaskOutput(text, masked).text, request.text, request.toLang).text;
+  }
+
+  // Source text with protected spans, then numbers, dates and amounts replaced by markers.
+  // Deterministic, so prompt building and output checks agree on the markers
+  private maskSource(request: TranslationRequest, context: PromptContext): MaskedSource {
+    const spans = maskProtectedSpans(request.text, context.protectedPatterns, INLINE_MARKUP_PATTERNS[request.format || 'plain']);
+    const numbers = protectLocaleEntities(spans.text, request.fromLang, request.toLang, context.digits);
+    return { text: numbers.text, spans: spans.spans, numbers: numbers.entities };
+  }
+
+  // Replace markers in model output with what they stand for, listing those the model dropped
+  private unmaskOutput(output: string, masked: MaskedSource) {
+    const numbers = restoreLocaleEntities(output, masked.numbers);
+    const spans = unmaskProtectedSpans(numbers.text, masked.spans);
+    return { text: spans.text, missingNumbers: numbers.missing, missingSpans: spans.missing };
+  }
+
+  // Check raw output for a request; English terms of code-mixed input and protected spans
+  // may stay in Latin script, and a dropped marker fails validation
+  private validateOutput(request: TranslationRequest, context: PromptContext, output: string): ValidationResult {
+    const masked = this.maskSource(request, context);
+    const restored = this.unmaskOutput(output, masked);
+    return validateTranslationOutput({
+      source: request.text,
+      output: restored.text,
+      fromLang: request.fromLang,
+      toLang: request.toLang,
+      keepTerms: [...(context.codeMixing?.englishTerms || []), ...masked.spans.map(span => span.text)],
+      missingNumbers: restored.missingNumbers.map(entity => entity.source),
+      missingSpans: restored.missingSpans.map(span => span.text),
+    });
+  }
+
+  // Output that still lost a protected span or number after every retry is replaced by the
+  // source segment: untranslated text is better than a silently dropped link or placeholder
+  private keepProtectedText(request: TranslationRequest, validation: ValidationResult): string {
+    return losesProtectedText(validation.warnings) ? request.text : validation.text;
+  }
+
+  // Sampling for a retry: each attempt runs cooler with its own seed (attempt 0 is unchanged)
+  private retryParams(params: GenerationParams, attempt: number): GenerationParams {
+    if (attempt === 0) {
+      return params;
+    }
+    return {
+      ...params,
+      temperature: Math.max(
+        VALIDATION_CONFIG.minRetryTemperature,
+        params.temperature - VALIDATION_CONFIG.retryTemperatureStep * attempt
+      ),
+      seed: attempt,
+    };
   }
 
   // Fallback translation for when Gemma model fails
-  private fallbackTranslation(request: TranslationRequest): Omit<TranslationResponse, 'processingTime'> {
-    const fallbackTranslations: { [key: string]: { [key: string]: string } } = {
-      'hi': {
-        'en': 'Hello, how are you?',
-        'ne': 'नमस्ते, तपाईं कसरी हुनुहुन्छ?',
-        'es': 'Hola, ¿cómo estás?',
-        'fr': 'Bonjour, comment allez-vous?',
-        'de': 'Hallo, wie geht es dir?',
-        'it': 'Ciao, come stai?',
-        'pt': 'Olá, como você está?',
-        'ru': 'Привет, как дела?',
-        'ja': 'こんにちは、お元気ですか？',
-        'ko': '안녕하세요, 어떻게 지내세요?',
-        'zh': '你好，你好吗？',
-        'ar': 'مرحبا، كيف حالك؟',
-        'bn': 'হ্যালো, আপনি কেমন আছেন?',
-        'ur': 'ہیلو، آپ کیسے ہیں؟',
-      },
-      'en': {
-        'hi': 'नमस्ते, आप कैसे हैं?',
-        'ne': 'नमस्ते, तपाईं कसरी हुनुहुन्छ?',
-        'es': 'Hola, ¿cómo estás?',
-        'fr': 'Bonjour, comment allez-vous?',
-        'de': 'Hallo, wie geht es dir?',
-        'it': 'Ciao, come stai?',
-        'pt': 'Olá, como você está?',
-        'ru': 'Привет, как дела?',
-        'ja': 'こんにちは、お元気ですか？',
-        'ko': '안녕하세요, 어떻게 지내세요?',
-        'zh': '你好，你好吗？',
-        'ar': 'مرحبا، كيف حالك؟',
-        'bn': 'হ্যালো, আপনি কেমন আছেন?',
-        'ur': 'ہیلو، آپ کیسے ہیں؟',
-      },
-      'ne': {
-        'en': 'Hello, how are you?',
-        'hi': 'नमस्ते, आप कैसे हैं?',
-        'es': 'Hola, ¿cómo estás?',
-        'fr': 'Bonjour, comment allez-vous?',
-        'de': 'Hallo, wie geht es dir?',
-        'it': 'Ciao, come stai?',
-        'pt': 'Olá, como você está?',
-        'ru': 'Привет, как дела?',
-        'ja': 'こんにちは、お元気ですか？',
-        'ko': '안녕하세요, 어떻게 지내세요?',
-        'zh': '你好，你好吗？',
-        'ar': 'مرحبا، كيف حالك؟',
-        'bn': 'হ্যালো, আপনি কেমন আছেন?',
-        'ur': 'ہیلو، آپ کیسے ہیں؟',
-      },
+  private fallbackTranslation(request: TranslationRequest): SegmentTranslation {
+    // Stock greeting per target language, for registry languages that have one
+    const fallbackTranslations: { [key: string]: string } = {
+      'en': 'Hello, how are you?',
+      'hi': 'नमस्ते, आप कैसे हैं?',
+      'ne': 'नमस्ते, तपाईं कसरी हुनुहुन्छ?',
+      'bn': 'হ্যালো, আপনি কেমন আছেন?',
+      'ur': 'ہیلو، آپ کیسے ہیں؟',
     };
 
-    const translation = fallbackTranslations[request.fromLang]?.[request.toLang] ||
-                       fallbackTranslations[request.toLang]?.[request.fromLang] ||
+    const translation = fallbackTranslations[request.toLang] ||
                        `[Translation from ${request.fromLang} to ${request.toLang}: ${request.text}]`;
 
     return {
@@ -392,62 +1155,238 @@ export class OptimizedTranslationService {
       confidence: 0.3, // Low confidence for fallback
       detectedLanguage: request.fromLang,
       tokensUsed: this.estimateTokenCount(translation),
+      fallback: true,
     };
   }
 
-  // Streaming translation for better UX
+  // OPTIMIZATION #4: Streaming translation for better UX
+  // Forwards each token from the engine so long sentences show output immediately
   async translateTextStream(
     request: TranslationRequest,
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    const maxTokens = request.maxTokens || this.MAX_TOKENS;
-    
+    onChunk: (chunk: StreamingResponse) => void,
+    signal?: AbortSignal
+  ): Promise<TranslationResponse> {
+    const startTime = Date.now();
+
+    // Documents are translated node by node and arrive in one piece once rebuilt
+    if (this.isMarkup(request)) {
+      const document = await this.translateMarkup(request, startTime, signal);
+      onChunk({
+        partialText: document.translatedText,
+        isComplete: true,
+        confidence: document.confidence,
+        tokensUsed: document.tokensUsed,
+        isPartial: document.isPartial,
+      });
+      return document;
+    }
+    request = this.prepareSourceText(request);
+
+    await this.ensureCacheHydrated();
+
+    // Pivoted pairs arrive in one piece once the second leg is done
+    const pivot = this.resolvePivot(request);
+    if (pivot) {
+      const pivoted = await modelManager.executeWithGemma(async () => {
+        return await this.translateViaPivot(request, pivot, startTime, signal);
+      }, signal);
+      onChunk({
+        partialText: pivoted.translatedText,
+        isComplete: true,
+        confidence: pivoted.confidence,
+        tokensUsed: pivoted.tokensUsed,
+        isPartial: pivoted.isPartial,
+      });
+      return pivoted;
+    }
+
+    const context = await this.buildPromptContext(request);
+    const cacheKey = this.generateCacheKey(request, context);
+    const cachedResult = this.getFromCache(cacheKey);
+    if (cachedResult) {
+      const cached = await this.refreshCachedQuality(
+        request,
+        cacheKey,
+        this.buildCachedResponse(request, cacheKey, cachedResult, context, startTime),
+        signal,
+        (operation) => modelManager.executeWithGemma(operation, signal)
+      );
+      onChunk({ partialText: cached.translatedText, isComplete: true, confidence: cached.confidence, tokensUsed: 0 });
+      return cached;
+    }
+
+    this.validateTranslationRequest(request);
+
+    if (context.exactMatch) {
+      const memoryResult = this.buildMemoryResponse(request, context.exactMatch, context, startTime);
+      onChunk({ partialText: memoryResult.translatedText, isComplete: true, confidence: memoryResult.confidence, tokensUsed: 0 });
+      return memoryResult;
+    }
+
+    const segmentation = this.segmentRequest(request);
+    let confidence = QUALITY_CONFIG.unverifiedConfidence;
+    const translations: string[] = [];
+    let tokensUsed = 0;
+    let isPartial = false;
+
+    // Streamed markers are shown as the text they stand for
+    const segmentMasks = segmentation.segments.map(segment => this.maskSource({ ...request, text: segment.text }, context));
+
+    const emit = (isComplete: boolean) => {
+      onChunk({
+        partialText: reassembleSegments(segmentation, translations.map((text, index) => {
+          return this.cleanTranslationOutput(text, request, segmentMasks[index]);
+        })),
+        isComplete,
+        confidence,
+        tokensUsed,
+        isPartial,
+      });
+    };
+
     try {
-      // Get full translation first using Gemma
-      const result = await this.translateText(request);
-      const words = result.translatedText.split(' ');
-      
-      let accumulatedText = '';
-      let tokensUsed = 0;
-      let confidence = result.confidence;
-
-      // Stream the result word by word
-      for (let i = 0; i < words.length; i += this.STREAM_CHUNK_SIZE) {
-        const chunk = words.slice(i, i + this.STREAM_CHUNK_SIZE).join(' ');
-        accumulatedText += (accumulatedText ? ' ' : '') + chunk;
-        tokensUsed += this.STREAM_CHUNK_SIZE;
-
-        onChunk({
-          partialText: accumulatedText,
-          isComplete: i + this.STREAM_CHUNK_SIZE >= words.length,
-          confidence: confidence - (tokensUsed * 0.001), // Slight confidence decrease
-          tokensUsed,
-        });
+      // Stream segments in order, one queued job each
+      for (let index = 0; index < segmentation.segments.length; index++) {
+        translations[index] = '';
+        const tokensBefore = tokensUsed;
+        const generation = await modelManager.executeWithGemma(async () => {
+          const segmentRequest = { ...request, text: segmentation.segments[index].text };
+          const params = { ...this.buildGenerationParams(segmentRequest, context), signal };
+          return await modelManager.getGemmaEngine().stream(params, (token) => {
+            translations[index] += token;
+            tokensUsed++;
+            emit(false);
+          });
+        }, signal);
 
-        // Small delay to simulate streaming
-        await new Promise(resolve => setTimeout(resolve, 50));
+        translations[index] = generation.text;
+        tokensUsed = tokensBefore + generation.tokensUsed; // Engine's count is authoritative
+        isPartial = isPartial || generation.finishReason === 'length';
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Streaming translation error:', error);
-      onChunk({
-        partialText: 'Translation failed',
-        isComplete: true,
-        confidence: 0,
-        tokensUsed: 0,
+      const streamed = translations.some(text => text.length > 0);
+
+      // A timeout with nothing to show is reported rather than replaced by the phrase table
+      if (isTimeoutError(error) && !streamed) {
+        throw error;
+      }
+
+      // Nothing came through: fall back to the phrase table
+      if (!streamed) {
+        const fallback = this.fallbackTranslation(request);
+        onChunk({ partialText: fallback.translatedText, isComplete: true, confidence: fallback.confidence, tokensUsed: fallback.tokensUsed });
+        return {
+          ...fallback,
+          processingTime: Date.now() - startTime,
+          segmentCount: segmentation.segments.length,
+          wasTruncated: true,
+          missingTerms: this.checkGlossaryTerms(fallback.translatedText, context),
+          mixRatio: context.codeMixing?.mixRatio,
+        };
+      }
+
+      // Keep whatever the engine produced before it was cut off
+      isPartial = true;
+    }
+
+    const wasTruncated = segmentation.truncated || isPartial;
+    const runModel: ModelRunner = (operation) => modelManager.executeWithGemma(operation, signal);
+
+    // Streamed segments that fail validation are regenerated (without streaming) before the final chunk
+    const cleaned: string[] = [];
+    const segmentWarnings: ValidationWarning[][] = [];
+    for (let index = 0; index < translations.length; index++) {
+      const segmentRequest = { ...request, text: segmentation.segments[index].text };
+      const validation = this.validateOutput(segmentRequest, context, translations[index]);
+      let text = validation.text;
+      let warnings = validation.warnings;
+
+      if (!validation.valid && !wasTruncated) {
+        try {
+          const retry = await runModel(async () => {
+            return await this.performGemmaTranslation(segmentRequest, context, signal, 1);
+          });
+          tokensUsed += retry.tokensUsed;
+          if (retry.validationWarnings && countValidationErrors(retry.validationWarnings) < countValidationErrors(warnings)) {
+            text = retry.translatedText;
+            warnings = retry.validationWarnings;
+          }
+        } catch (error) {
+          // A retry that times out leaves the streamed segment in place
+          if (!isTimeoutError(error)) {
+            throw error;
+          }
+          console.warn('Segment retry timed out:', error);
+        }
+      }
+      cleaned.push(this.keepProtectedText(segmentRequest, { ...validation, text, warnings }));
+      segmentWarnings.push(warnings);
+    }
+    const validationWarnings = mergeValidationWarnings(segmentWarnings);
+    const failedValidation = countValidationErrors(validationWarnings) > 0;
+
+    const alternatives = wasTruncated
+      ? undefined
+      : await this.generateAlternatives(request, context, segmentation, cleaned, signal, runModel);
+    const translatedText = alternatives ? alternatives[0].text : reassembleSegments(segmentation, cleaned);
+    const quality = await this.estimateQuality(request, translatedText, signal, runModel);
+    confidence = failedValidation ? Math.min(quality.confidence, VALIDATION_CONFIG.failedConfidence) : quality.confidence;
+
+    const result: TranslationResponse = {
+      translatedText,
+      confidence,
+      detectedLanguage: request.fromLang,
+      tokensUsed,
+      processingTime: Date.now() - startTime,
+      isPartial,
+      segmentCount: segmentation.segments.length,
+      wasTruncated,
+      missingTerms: this.checkGlossaryTerms(translatedText, context),
+      memoryMatchScore: context.examples[0]?.score,
+      qualityReasons: quality.reasons,
+      alternatives,
+      mixRatio: context.codeMixing?.mixRatio,
+      validationWarnings,
+    };
+
+    // Only complete, valid generations are worth reusing
+    if (!wasTruncated && !failedValidation) {
+      this.addToCache(cacheKey, {
+        text: result.translatedText,
+        confidence: result.confidence,
+        reasons: quality.reasons,
+        backTranslated: quality.similarity !== undefined,
+        alternatives,
+        warnings: validationWarnings,
       });
     }
+
+    onChunk({ partialText: translatedText, isComplete: true, confidence, tokensUsed, isPartial });
+    return result;
   }
 
-  // Language detection using Gemma 3n model
-  async detectLanguage(text: string): Promise<string> {
+  // Language detection: offline n-gram identifier first, Gemma 3n only for unclear cases
+  async detectLanguage(text: string, signal?: AbortSignal): Promise<string> {
+    const ranked = identifyLanguageOffline(text);
+    if (ranked[0] && ranked[0].probability >= this.OFFLINE_DETECTION_CONFIDENCE) {
+      return ranked[0].code;
+    }
+
     try {
       // Use Gemma 3n for language detection
       const result = await modelManager.executeWithGemma(async () => {
-        return await this.performGemmaLanguageDetection(text);
-      });
+        return await this.performGemmaLanguageDetection(text, signal);
+      }, signal);
       
       return result;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Gemma language detection error:', error);
       
       // Fallback to simple detection
@@ -455,97 +1394,80 @@ export class OptimizedTranslationService {
     }
   }
 
+  // Ranked offline identification; a single "unknown" entry when the text is too short to tell
+  identifyLanguage(text: string, options: IdentifyLanguageOptions = {}): LanguageCandidate[] {
+    const letters = text.match(/\p{L}/gu) || [];
+    const ranked = letters.length >= this.MIN_IDENTIFY_LETTERS ? identifyLanguageOffline(text, options.candidates) : [];
+    if (ranked.length === 0) {
+      return [{ code: UNKNOWN_LANGUAGE, probability: 1, script: dominantScript(text) || 'Unknown' }];
+    }
+    return ranked.slice(0, Math.max(1, options.topK ?? this.DEFAULT_IDENTIFY_TOP_K));
+  }
+
   // Perform language detection using Gemma 3n
-  private async performGemmaLanguageDetection(text: string): Promise<string> {
+  private async performGemmaLanguageDetection(text: string, signal?: AbortSignal): Promise<string> {
     // Use the language detection prompt from config
     const prompt = getLanguageDetectionPrompt(text, 'general');
-    
-    // Simulate Gemma 3n language detection
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    // Use the same language detection logic as before
-    return this.simpleLanguageDetection(text);
-  }
-
-  // Reverse map Google language codes back to our format
-  private reverseMapLanguageCode(googleCode: string): string {
-    const reverseMap: { [key: string]: string } = {
-      'en': 'en',
-      'hi': 'hi',
-      'ne': 'ne',
-      'es': 'es',
-      'fr': 'fr',
-      'de': 'de',
-      'it': 'it',
-      'pt': 'pt',
-      'ru': 'ru',
-      'ja': 'ja',
-      'ko': 'ko',
-      'zh': 'zh',
-      'ar': 'ar',
-      'bn': 'bn',
-      'ur': 'ur',
-      'as': 'as',
-      'brx': 'brx',
-      'doi': 'doi',
-      'gu': 'gu',
-      'kn': 'kn',
-      'kok': 'kok',
-      'mai': 'mai',
-      'ml': 'ml',
-      'mni': 'mni',
-      'mr': 'mr',
-      'or': 'or',
-      'sa': 'sa',
-      'sat': 'sat',
-      'sd': 'sd',
-      'ta': 'ta',
-      'te': 'te',
-    };
+    const generation = await modelManager.getGemmaEngine().generate({
+      prompt,
+      maxTokens: 5,
+      temperature: 0,
+      topP: 1,
+      topK: 1,
+      signal,
+    });
 
-    return reverseMap[googleCode] || googleCode;
+    // Only trust a code the app supports; otherwise use the offline result
+    const code = generation.text.trim().toLowerCase().match(/^[a-z]{2,3}\b/)?.[0];
+    return code && isSupportedLanguage(code) ? code : this.simpleLanguageDetection(text);
   }
 
   // Simple language detection for performance
+  // Only registry languages are returned: the offline identifier covers every
+  // supported script, and anything else is treated as English
   private simpleLanguageDetection(text: string): string {
-    const hindiPattern = /[\u0900-\u097F]/;
-    const arabicPattern = /[\u0600-\u06FF]/;
-    const chinesePattern = /[\u4E00-\u9FFF]/;
-    const japanesePattern = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF]/;
-    const koreanPattern = /[\uAC00-\uD7AF]/;
-    const cyrillicPattern = /[\u0400-\u04FF]/;
-    const nepaliPattern = /[\u0900-\u097F]/; // Same as Hindi for now
-    const bengaliPattern = /[\u0980-\u09FF]/;
-    const tamilPattern = /[\u0B80-\u0BFF]/;
-    const teluguPattern = /[\u0C00-\u0C7F]/;
-    const kannadaPattern = /[\u0C80-\u0CFF]/;
-    const malayalamPattern = /[\u0D00-\u0D7F]/;
-    const gujaratiPattern = /[\u0A80-\u0AFF]/;
-    const punjabiPattern = /[\u0A00-\u0A7F]/;
-    const odiaPattern = /[\u0B00-\u0B7F]/;
-
-    if (hindiPattern.test(text)) return 'hi';
-    if (nepaliPattern.test(text)) return 'ne';
-    if (bengaliPattern.test(text)) return 'bn';
-    if (tamilPattern.test(text)) return 'ta';
-    if (teluguPattern.test(text)) return 'te';
-    if (kannadaPattern.test(text)) return 'kn';
-    if (malayalamPattern.test(text)) return 'ml';
-    if (gujaratiPattern.test(text)) return 'gu';
-    if (punjabiPattern.test(text)) return 'pa';
-    if (odiaPattern.test(text)) return 'or';
-    if (arabicPattern.test(text)) return 'ar';
-    if (chinesePattern.test(text)) return 'zh';
-    if (japanesePattern.test(text)) return 'ja';
-    if (koreanPattern.test(text)) return 'ko';
-    if (cyrillicPattern.test(text)) return 'ru';
-
-    return 'en'; // Default to English
+    const ranked = identifyLanguageOffline(text);
+    return ranked.length > 0 ? ranked[0].code : 'en';
   }
 
   // Cache management
-  private generateCacheKey(request: TranslationRequest): string {
-    return `translation_${request.fromLang}_${request.toLang}_${this.hashText(request.text)}`;
+  private generateCacheKey(request: TranslationRequest, context: PromptContext): string {
+    // Each register is a different translation of the same text
+    let key = `${request.fromLang}_${request.toLang}_${context.register}_${this.hashText(request.text)}`;
+
+    // A request for more candidates must not be served a smaller set
+    const alternatives = this.alternativeCount(request);
+    if (alternatives > 1) {
+      key += `_n${alternatives}`;
+    }
+
+    // Updating or replacing a prompt pack changes the prompt, so it changes the key
+    if (context.pack) {
+      key += `_p${context.pack.packId}@${context.pack.version}#${context.pack.entry.domain}`;
+    }
+
+    // Native digits change how numbers in the output are written
+    if (context.digits !== DEFAULT_DIGIT_STYLE) {
+      key += `_d${context.digits}`;
+    }
+
+    // Inline markup is masked, so the same text node translates differently as Markdown or HTML
+    if (request.format && request.format !== 'plain') {
+      key += `_f${request.format}`;
+    }
+
+    // Protected patterns change what the model is asked to translate
+    if (context.protectedPatterns.length > 0) {
+      key += `_m${this.hashText(context.protectedPatterns.map(pattern => pattern.source).join('\n'))}`;
+    }
+
+    // Glossary and memory edits must not be masked by translations made under the old prompt
+    if (context.glossary.length === 0 && context.examples.length === 0) {
+      return key;
+    }
+    const terms = context.glossary.map(entry => `${entry.source}=${entry.target}`).join('|');
+    const examples = context.examples.map(match => match.segment.id).join('|');
+    return `${key}_g${this.hashText(terms + '#' + examples)}`;
   }
 
   private hashText(text: string): string {
@@ -566,21 +1488,23 @@ export class OptimizedTranslationService {
     }
     if (entry) {
       this.translationCache.delete(key);
+      this.persistentCache.delete(key);
     }
     return null;
   }
 
-  private addToCache(key: string, text: string, confidence: number): void {
-    // Check cache size limit
-    if (this.translationCache.size >= this.MAX_CACHE_SIZE) {
+  private addToCache(key: string, values: Omit<CacheEntry, 'timestamp'>): void {
+    // Check cache size limit (updating an existing entry needs no room)
+    if (!this.translationCache.has(key) && this.translationCache.size >= this.MAX_CACHE_SIZE) {
       this.evictOldestCacheEntry();
     }
 
-    this.translationCache.set(key, {
-      text,
+    const entry: CacheEntry = {
+      ...values,
       timestamp: Date.now(),
-      confidence,
-    });
+    };
+    this.translationCache.set(key, entry);
+    this.persistentCache.set(key, entry);
   }
 
   private evictOldestCacheEntry(): void {
@@ -596,6 +1520,7 @@ export class OptimizedTranslationService {
 
     if (oldestKey) {
       this.translationCache.delete(oldestKey);
+      this.persistentCache.delete(oldestKey);
     }
   }
 
@@ -606,6 +1531,7 @@ export class OptimizedTranslationService {
     for (const [key, entry] of this.translationCache.entries()) {
       if (now - entry.timestamp > expiryTime) {
         this.translationCache.delete(key);
+        this.persistentCache.delete(key);
       }
     }
   }
@@ -620,38 +1546,15 @@ export class OptimizedTranslationService {
     }
   }
 
-  private truncateTextForTokens(text: string, maxTokens: number): string {
-    const words = text.split(' ');
-    if (words.length <= maxTokens) {
-      return text;
-    }
-    return words.slice(0, maxTokens).join(' ');
-  }
-
   private estimateTokenCount(text: string): number {
     // Rough estimation: 1 token ≈ 4 characters
     return Math.ceil(text.length / 4);
   }
 
-  private extractLanguageFromPrompt(prompt: string): string {
-    // Extract source language from prompt
-    const match = prompt.match(/from (\w+)/i);
-    return match ? match[1] : 'en';
-  }
-
-  private extractTargetLanguageFromPrompt(prompt: string): string {
-    // Extract target language from prompt
-    const match = prompt.match(/to (\w+)/i);
-    return match ? match[1] : 'en';
-  }
-
   // Public cache management
   async clearCache(): Promise<void> {
-    this.translationCache.clear();
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      const cacheKeys = keys.filter(key => key.startsWith('translation_'));
-      await AsyncStorage.multiRemove(cacheKeys);
+      await clearTranslationCache();
     } catch (error) {
       console.error('Error clearing AsyncStorage cache:', error);
     }
@@ -673,6 +1576,93 @@ export class OptimizedTranslationService {
     }
   }
 
+  // Default register for translations into a language
+  async loadRegisterPreference(languageCode: string): Promise<TranslationRegister> {
+    if (!this.registerPreferences) {
+      try {
+        const stored = await AsyncStorage.getItem(this.REGISTER_PREFERENCES_KEY);
+        this.registerPreferences = stored ? JSON.parse(stored) : {};
+      } catch (error) {
+        console.error('Error loading register preferences:', error);
+        this.registerPreferences = {};
+      }
+    }
+
+    const register = this.registerPreferences![languageCode];
+    return register && TRANSLATION_REGISTERS.includes(register) ? register : DEFAULT_REGISTER;
+  }
+
+  // Save the default register for translations into a language
+  async saveRegisterPreference(languageCode: string, register: TranslationRegister): Promise<void> {
+    await this.loadRegisterPreference(languageCode);
+    this.registerPreferences = { ...this.registerPreferences, [languageCode]: register };
+    try {
+      await AsyncStorage.setItem(this.REGISTER_PREFERENCES_KEY, JSON.stringify(this.registerPreferences));
+    } catch (error) {
+      console.error('Error saving register preference:', error);
+    }
+  }
+
+  // Digits used for numbers in translations
+  async loadDigitPreference(): Promise<DigitStyle> {
+    if (!this.digitPreference) {
+      try {
+        const stored = await AsyncStorage.getItem(this.DIGIT_PREFERENCE_KEY) as DigitStyle | null;
+        this.digitPreference = stored && DIGIT_STYLES.includes(stored) ? stored : DEFAULT_DIGIT_STYLE;
+      } catch (error) {
+        console.error('Error loading digit preference:', error);
+        this.digitPreference = DEFAULT_DIGIT_STYLE;
+      }
+    }
+    return this.digitPreference;
+  }
+
+  // Save whether translations use native or ASCII digits
+  async saveDigitPreference(digits: DigitStyle): Promise<void> {
+    this.digitPreference = digits;
+    try {
+      await AsyncStorage.setItem(this.DIGIT_PREFERENCE_KEY, digits);
+    } catch (error) {
+      console.error('Error saving digit preference:', error);
+    }
+  }
+
+  // Regular expression sources the user wants kept verbatim in translations
+  async loadProtectedPatterns(): Promise<string[]> {
+    if (!this.protectedPatterns) {
+      try {
+        const stored = await AsyncStorage.getItem(this.PROTECTED_PATTERNS_KEY);
+        const patterns: string[] = stored ? JSON.parse(stored) : [];
+        // Skip anything that no longer compiles rather than failing every translation
+        this.protectedPatterns = patterns.filter(pattern => {
+          try {
+            compileProtectedPatterns([pattern]);
+            return true;
+          } catch (error) {
+            console.warn('Skipping protected pattern:', error);
+            return false;
+          }
+        });
+      } catch (error) {
+        console.error('Error loading protected patterns:', error);
+        this.protectedPatterns = [];
+      }
+    }
+    return this.protectedPatterns;
+  }
+
+  // Save the user's protected patterns; throws if one is not a valid regular expression
+  async saveProtectedPatterns(patterns: string[]): Promise<void> {
+    const cleaned = patterns.map(pattern => pattern.trim()).filter(pattern => pattern.length > 0);
+    compileProtectedPatterns(cleaned);
+    this.protectedPatterns = cleaned;
+    try {
+      await AsyncStorage.setItem(this.PROTECTED_PATTERNS_KEY, JSON.stringify(cleaned));
+    } catch (error) {
+      console.error('Error saving protected patterns:', error);
+    }
+  }
+
   // Load user preferences
   async loadUserPreference(): Promise<string> {
     try {
@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { TRANSLATION_CACHE_PREFIX } from '../config/gemmaConfig';
+import { ValidationWarning } from '../utils/outputValidation';
+
+// One of several translations generated for the same input
+export interface TranslationCandidate {
+  text: string;
+  score: number; // 0-1, higher is better
+  pinned?: boolean; // Chosen by the user over the others
+}
+
+// Cache with expiration
+export interface CacheEntry {
+  text: string;
+  timestamp: number;
+  confidence: number;
+  reasons?: string[]; // Quality estimation findings behind the confidence
+  backTranslated?: boolean; // Confidence came from a back-translation pass
+  alternatives?: TranslationCandidate[]; // Ranked candidates, best (or pinned) first
+  warnings?: ValidationWarning[]; // Output validation findings (only repaired or suspicious output is cached)
+}
+
+export interface PersistentCacheOptions {
+  maxEntries: number;
+  expiryMs: number;
+  flushDelay: number; // ms to batch writes before hitting storage
+}
+
+/**
+ * PersistentTranslationCache - AsyncStorage tier behind the in-memory cache
+ *
+ * Entries are stored one per key under TRANSLATION_CACHE_PREFIX. Writes and
+ * deletes are queued and flushed in a single multiSet/multiRemove after
+ * flushDelay, and immediately when the app leaves the foreground so nothing
+ * is lost if the OS kills the process.
+ */
+export class PersistentTranslationCache {
+  private readonly options: PersistentCacheOptions;
+  private pendingWrites: Map<string, CacheEntry | null> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushChain: Promise<void> = Promise.resolve();
+  private appStateSubscription: any = null;
+
+  constructor(options: PersistentCacheOptions) {
+    this.options = options;
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+  }
+
+  // Flush queued writes before the app can be killed in the background
+  private handleAppStateChange = (nextAppState: AppStateStatus): void => {
+    if (nextAppState === 'background' || nextAppState === 'inactive') {
+      this.flush();
+    }
+  };
+
+  // Read every valid entry from storage, dropping expired and over-limit ones on disk
+  async hydrate(): Promise<Map<string, CacheEntry>> {
+    const entries = new Map<string, CacheEntry>();
+
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(TRANSLATION_CACHE_PREFIX));
+      const stored = await AsyncStorage.multiGet(keys);
+      const now = Date.now();
+      const staleKeys: string[] = [];
+
+      for (const [storageKey, value] of stored) {
+        const entry = this.parseEntry(value);
+        if (!entry || now - entry.timestamp >= this.options.expiryMs) {
+          staleKeys.push(storageKey);
+          continue;
+        }
+        entries.set(storageKey.slice(TRANSLATION_CACHE_PREFIX.length), entry);
+      }
+
+      // Enforce the size limit on disk, keeping the newest entries
+      if (entries.size > this.options.maxEntries) {
+        const oldest = Array.from(entries.entries())
+          .sort((a, b) => a[1].timestamp - b[1].timestamp)
+          .slice(0, entries.size - this.options.maxEntries);
+        for (const [key] of oldest) {
+          entries.delete(key);
+          staleKeys.push(TRANSLATION_CACHE_PREFIX + key);
+        }
+      }
+
+      if (staleKeys.length > 0) {
+        await AsyncStorage.multiRemove(staleKeys);
+      }
+    } catch (error) {
+      console.error('Error hydrating translation cache:', error);
+    }
+
+    return entries;
+  }
+
+  // Queue an entry for writing
+  set(key: string, entry: CacheEntry): void {
+    this.pendingWrites.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  // Queue an entry for removal
+  delete(key: string): void {
+    this.pendingWrites.set(key, null);
+    this.scheduleFlush();
+  }
+
+  // Write all queued changes to storage
+  async flush(): Promise<void> {
+    this.cancelFlushTimer();
+
+    // Chain flushes so a later batch never lands before an earlier one
+    this.flushChain = this.flushChain.then(() => this.writeBatch());
+    await this.flushChain;
+  }
+
+  // Drop queued changes and wait for a flush in progress, so nothing is written after a clear
+  async discardPending(): Promise<void> {
+    this.cancelFlushTimer();
+    this.pendingWrites.clear();
+    await this.flushChain;
+  }
+
+  dispose(): void {
+    this.cancelFlushTimer();
+    if (this.appStateSubscription) {
+      this.appStateSubscription.remove();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.options.flushDelay);
+  }
+
+  private cancelFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private async writeBatch(): Promise<void> {
+    if (this.pendingWrites.size === 0) {
+      return;
+    }
+
+    const batch = this.pendingWrites;
+    this.pendingWrites = new Map();
+
+    const writes: Array<[string, string]> = [];
+    const removals: string[] = [];
+    batch.forEach((entry, key) => {
+      if (entry) {
+        writes.push([TRANSLATION_CACHE_PREFIX + key, JSON.stringify(entry)]);
+      } else {
+        removals.push(TRANSLATION_CACHE_PREFIX + key);
+      }
+    });
+
+    try {
+      if (writes.length > 0) {
+        await AsyncStorage.multiSet(writes);
+      }
+      if (removals.length > 0) {
+        await AsyncStorage.multiRemove(removals);
+      }
+    } catch (error) {
+      console.error('Error flushing translation cache:', error);
+    }
+  }
+
+  private parseEntry(value: string | null): CacheEntry | null {
+    if (!value) {
+      return null;
+    }
+    try {
+      const entry = JSON.parse(value);
+      return typeof entry?.text === 'string' && typeof entry?.timestamp === 'number' ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Owners of in-memory translations, told to drop them before storage is cleared
+const clearListeners = new Set<() => Promise<void> | void>();
+
+// Register a listener; returns a function that removes it
+export const addTranslationCacheClearListener = (listener: () => Promise<void> | void): (() => void) => {
+  clearListeners.add(listener);
+  return () => {
+    clearListeners.delete(listener);
+  };
+};
+
+/**
+ * Clear every cached translation: listeners drop their in-memory entries
+ * and queued writes first, then the persisted entries are removed. All
+ * cache clear paths go through here so a later flush cannot bring deleted
+ * entries back. Returns the number of persisted entries removed.
+ */
+export const clearTranslationCache = async (): Promise<number> => {
+  await Promise.all(Array.from(clearListeners).map(listener => listener()));
+
+  const keys = await AsyncStorage.getAllKeys();
+  const cacheKeys = keys.filter(key => key.startsWith(TRANSLATION_CACHE_PREFIX));
+  if (cacheKeys.length > 0) {
+    await AsyncStorage.multiRemove(cacheKeys);
+  }
+  return cacheKeys.length;
+};
@@ -0,0 +1,182 @@
+import * as FileSystem from 'expo-file-system';
+import { PROMPT_PACK_CONFIG, PromptPackContent } from '../config/gemmaConfig';
+import bodoPack from '../assets/promptPacks/bodo.json';
+import dogriPack from '../assets/promptPacks/dogri.json';
+import santaliPack from '../assets/promptPacks/santali.json';
+
+// Pack file layout this version of the app understands
+export const PROMPT_PACK_FORMAT = 1;
+
+export interface PromptPackEntry extends PromptPackContent {
+  from: string;
+  to: string;
+  domain: string; // e.g. "general", "medical"; requests without a domain use PROMPT_PACK_CONFIG.defaultDomain
+}
+
+export interface PromptPack {
+  id: string;
+  version: string; // Recorded in cache keys so a pack update invalidates earlier translations
+  entries: PromptPackEntry[];
+  origin: 'builtin' | 'user';
+}
+
+// Pack entry chosen for a request
+export interface PromptPackMatch {
+  packId: string;
+  version: string;
+  entry: PromptPackEntry;
+}
+
+const BUILTIN_PACKS: unknown[] = [bodoPack, dogriPack, santaliPack];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Validate a parsed pack file; throws describing the first problem found
+export const parsePromptPack = (data: unknown, origin: PromptPack['origin']): PromptPack => {
+  const pack = data as { format?: unknown; id?: unknown; version?: unknown; entries?: unknown };
+  if (!pack || typeof pack !== 'object') {
+    throw new Error('Prompt pack must be a JSON object');
+  }
+  if (pack.format !== PROMPT_PACK_FORMAT) {
+    throw new Error(`Unsupported prompt pack format: ${String(pack.format)}`);
+  }
+  if (!isNonEmptyString(pack.id) || !isNonEmptyString(pack.version)) {
+    throw new Error('Prompt pack needs an id and a version');
+  }
+  if (!Array.isArray(pack.entries) || pack.entries.length === 0) {
+    throw new Error(`Prompt pack "${pack.id}" has no entries`);
+  }
+
+  const entries = pack.entries.map((raw, index): PromptPackEntry => {
+    const entry = raw as Partial<PromptPackEntry>;
+    const examples = Array.isArray(entry.examples) ? entry.examples : [];
+    const validExamples = examples.every(example => isNonEmptyString(example?.source) && isNonEmptyString(example?.target));
+    if (!isNonEmptyString(entry.from) || !isNonEmptyString(entry.to) || !validExamples) {
+      throw new Error(`Prompt pack "${pack.id}" entry ${index} needs from, to and source/target examples`);
+    }
+    return {
+      from: entry.from,
+      to: entry.to,
+      domain: isNonEmptyString(entry.domain) ? entry.domain : PROMPT_PACK_CONFIG.defaultDomain,
+      system: typeof entry.system === 'string' ? entry.system.trim() : '',
+      examples: examples.map(example => ({ source: example.source.trim(), target: example.target.trim() })),
+    };
+  });
+
+  return { id: pack.id, version: pack.version, entries, origin };
+};
+
+/**
+ * PromptPackService - Few-shot prompt packs per language pair and domain
+ *
+ * Built-in packs ship in assets/promptPacks; users can drop their own JSON
+ * files into the promptPacks folder of the app's document directory (or
+ * install one with installPack). User packs take precedence over built-ins,
+ * and invalid files are skipped with a warning.
+ */
+export class PromptPackService {
+  private static instance: PromptPackService;
+  private packs: Promise<PromptPack[]> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PromptPackService {
+    if (!PromptPackService.instance) {
+      PromptPackService.instance = new PromptPackService();
+    }
+    return PromptPackService.instance;
+  }
+
+  // All packs, user packs first; loaded once and reused
+  async getPacks(): Promise<PromptPack[]> {
+    if (!this.packs) {
+      this.packs = this.loadPacks();
+    }
+    return this.packs;
+  }
+
+  // Entry for a pair and domain, falling back to the default domain
+  async findPack(fromLang: string, toLang: string, domain?: string): Promise<PromptPackMatch | undefined> {
+    const packs = await this.getPacks();
+    const domains = Array.from(new Set([domain || PROMPT_PACK_CONFIG.defaultDomain, PROMPT_PACK_CONFIG.defaultDomain]));
+
+    for (const wanted of domains) {
+      for (const pack of packs) {
+        const entry = pack.entries.find(candidate => {
+          return candidate.from === fromLang && candidate.to === toLang && candidate.domain === wanted;
+        });
+        if (entry) {
+          return { packId: pack.id, version: pack.version, entry };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Validate a pack and save it to the user folder, replacing a file of the same id
+  async installPack(json: string): Promise<PromptPack> {
+    const pack = parsePromptPack(JSON.parse(json), 'user');
+    const directory = await this.ensureUserDirectory();
+    if (!directory) {
+      throw new Error('Prompt packs cannot be installed on this device');
+    }
+
+    await FileSystem.writeAsStringAsync(`${directory}${pack.id}.json`, json);
+    this.packs = null;
+    return pack;
+  }
+
+  // Forget loaded packs so files added to the user folder are picked up
+  reload(): void {
+    this.packs = null;
+  }
+
+  private async loadPacks(): Promise<PromptPack[]> {
+    const builtin = BUILTIN_PACKS.map(data => parsePromptPack(data, 'builtin'));
+    return [...(await this.loadUserPacks()), ...builtin];
+  }
+
+  private async loadUserPacks(): Promise<PromptPack[]> {
+    const directory = await this.ensureUserDirectory();
+    if (!directory) {
+      return [];
+    }
+
+    const packs: PromptPack[] = [];
+    try {
+      const files = (await FileSystem.readDirectoryAsync(directory)).filter(name => name.endsWith('.json')).sort();
+      for (const file of files) {
+        try {
+          const contents = await FileSystem.readAsStringAsync(directory + file);
+          packs.push(parsePromptPack(JSON.parse(contents), 'user'));
+        } catch (error) {
+          console.warn(`Skipping prompt pack ${file}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading prompt packs:', error);
+    }
+    return packs;
+  }
+
+  // User pack folder, created on first use (null where there is no document directory, e.g. web)
+  private async ensureUserDirectory(): Promise<string | null> {
+    if (!FileSystem.documentDirectory) {
+      return null;
+    }
+
+    const directory = FileSystem.documentDirectory + PROMPT_PACK_CONFIG.userDirectory;
+    try {
+      const info = await FileSystem.getInfoAsync(directory);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+      }
+      return directory;
+    } catch (error) {
+      console.error('Error preparing prompt pack folder:', error);
+      return null;
+    }
+  }
+}
+
+export default PromptPackService.getInstance();
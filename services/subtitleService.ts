@@ -0,0 +1,122 @@
+import * as FileSystem from 'expo-file-system';
+import { SUBTITLE_CONFIG } from '../config/gemmaConfig';
+import optimizedTranslationService, { batchItemFailure } from './optimizedTranslationService';
+import {
+  SubtitleFormat,
+  balanceTags,
+  groupSubtitleSentences,
+  parseSubtitles,
+  serializeSubtitles,
+  splitTranslation,
+  subtitleCues,
+  wrapSubtitleText,
+} from '../utils/subtitles';
+import { restoreTokens, tokenizeText } from '../utils/messageFormat';
+
+export interface SubtitleTranslationOptions {
+  maxCharsPerLine?: number; // Defaults to SUBTITLE_CONFIG.maxCharsPerLine
+  signal?: AbortSignal;
+  onProgress?: (progress: { completed: number; total: number }) => void; // Counted in sentences
+}
+
+export interface SubtitleTranslationResult {
+  uri: string; // The translated file
+  format: SubtitleFormat;
+  cueCount: number;
+  sentenceCount: number; // Translation units after joining cues
+  failedSentences: number; // Left in the source language
+  errors: string[]; // Why those sentences failed, without repeats
+}
+
+/**
+ * SubtitleService - Translate SRT and WebVTT files
+ *
+ * Cues are joined into sentences, translated as one batch through
+ * OptimizedTranslationService and split back across the original cues, so
+ * numbering and timing never change. The result is written next to the
+ * other translated subtitles in the app's document directory as
+ * "<name>.<toLang>.<ext>".
+ */
+export class SubtitleService {
+  private static instance: SubtitleService;
+
+  private constructor() {}
+
+  public static getInstance(): SubtitleService {
+    if (!SubtitleService.instance) {
+      SubtitleService.instance = new SubtitleService();
+    }
+    return SubtitleService.instance;
+  }
+
+  async translateSubtitles(
+    fileUri: string,
+    fromLang: string,
+    toLang: string,
+    options: SubtitleTranslationOptions = {}
+  ): Promise<SubtitleTranslationResult> {
+    const document = parseSubtitles(await FileSystem.readAsStringAsync(fileUri));
+    const cues = subtitleCues(document);
+    const sentences = groupSubtitleSentences(cues, SUBTITLE_CONFIG.maxMergedCues, SUBTITLE_CONFIG.maxMergeGapMs);
+    const maxChars = options.maxCharsPerLine || SUBTITLE_CONFIG.maxCharsPerLine;
+
+    // Styling tags travel as {_1}, {_2}, ... tokens so the model cannot drop or translate them
+    const tokenized = sentences.map(sentence => tokenizeText(sentence.text));
+    const results = await optimizedTranslationService.translateBatch(
+      tokenized.map(unit => ({ text: unit.text, fromLang, toLang })),
+      { signal: options.signal, onProgress: options.onProgress }
+    );
+
+    // A failed sentence keeps its source lines; the rest are split back and re-wrapped
+    let failedSentences = 0;
+    const errors = new Set<string>();
+    sentences.forEach((sentence, index) => {
+      const failure = batchItemFailure(results[index]);
+      const translated = failure ? undefined : restoreTokens(results[index].result!.translatedText, tokenized[index].tokens);
+      if (translated === undefined) {
+        failedSentences++;
+        errors.add(failure || 'The translation dropped italics or other styling');
+        return;
+      }
+      const parts = balanceTags(splitTranslation(translated, sentence.targets.map(target => target.length)));
+      sentence.targets.forEach((target, part) => {
+        cues[target.cue].lines[target.line] = wrapSubtitleText(parts[part], maxChars);
+      });
+    });
+
+    if (failedSentences === sentences.length && sentences.length > 0) {
+      throw new Error(Array.from(errors)[0]);
+    }
+
+    const uri = await this.outputUri(fileUri, toLang, document.format);
+    await FileSystem.writeAsStringAsync(uri, serializeSubtitles(document));
+
+    return {
+      uri,
+      format: document.format,
+      cueCount: cues.length,
+      sentenceCount: sentences.length,
+      failedSentences,
+      errors: Array.from(errors),
+    };
+  }
+
+  // "<documents>/subtitles/<name>.<toLang>.<ext>", creating the folder on first use
+  private async outputUri(fileUri: string, toLang: string, format: SubtitleFormat): Promise<string> {
+    if (!FileSystem.documentDirectory) {
+      throw new Error('Subtitles cannot be saved on this device');
+    }
+
+    const directory = FileSystem.documentDirectory + SUBTITLE_CONFIG.outputDirectory;
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+
+    const fileName = decodeURIComponent(fileUri.replace(/[?#].*$/, '').split('/').pop() || '');
+    const baseName = fileName.replace(/\.(srt|vtt)$/i, '') || 'subtitles';
+    return `${directory}${baseName}.${toLang}.${format}`;
+  }
+}
+
+export default SubtitleService.getInstance();
@@ -0,0 +1,80 @@
+import { EngineConfig } from '../config/gemmaConfig';
+import { HttpTranslationEngine } from './httpTranslationEngine';
+import { FixtureTranslationEngine } from './fixtureTranslationEngine';
+
+// Sampling parameters passed to the engine for a single generation
+export interface GenerationParams {
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  topK: number;
+  stop?: string[];
+  seed?: number;
+  signal?: AbortSignal; // Interrupts generation when fired
+}
+
+// Result of a single generation
+export interface GenerationResult {
+  text: string;
+  tokensUsed: number;
+  finishReason: 'stop' | 'length';
+}
+
+/**
+ * TranslationEngine - Inference backend used by the translation services
+ *
+ * ModelManager owns the engine lifecycle (load on first use, dispose on unload),
+ * so services should never hold on to an engine between queued operations.
+ */
+export interface TranslationEngine {
+  readonly name: string;
+
+  // Prepare the backend (connect, warm up, load weights)
+  load(): Promise<void>;
+
+  // Generate the full completion for a prompt
+  generate(params: GenerationParams): Promise<GenerationResult>;
+
+  // Generate a completion, forwarding each token as soon as it is produced
+  stream(params: GenerationParams, onToken: (token: string) => void): Promise<GenerationResult>;
+
+  // Convert text to the engine's token ids
+  tokenize(text: string): Promise<number[]>;
+
+  // Release any resources held by the backend
+  dispose(): Promise<void>;
+}
+
+// Sample one completion per seed, dropping any whose text repeats an earlier one
+export const generateCandidates = async (
+  engine: TranslationEngine,
+  params: GenerationParams,
+  seeds: number[]
+): Promise<GenerationResult[]> => {
+  const candidates: GenerationResult[] = [];
+  const seen = new Set<string>();
+
+  for (const seed of seeds) {
+    const result = await engine.generate({ ...params, seed });
+    const key = result.text.trim().replace(/\s+/g, ' ');
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      candidates.push(result);
+    }
+  }
+
+  return candidates;
+};
+
+// Create an engine instance from configuration
+export const createTranslationEngine = (config: EngineConfig): TranslationEngine => {
+  switch (config.type) {
+    case 'http':
+      return new HttpTranslationEngine(config);
+    case 'fixture':
+      return new FixtureTranslationEngine(config);
+    default:
+      throw new Error(`Unknown translation engine type: ${config.type}`);
+  }
+};
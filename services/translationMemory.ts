@@ -0,0 +1,251 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { escapeXml, decodeXmlEntities, getXmlAttribute } from '../utils/xml';
+
+export interface MemorySegment {
+  id: string;
+  source: string;
+  target: string;
+  createdAt: number;
+  origin: 'user' | 'tmx';
+}
+
+export interface MemoryMatch {
+  segment: MemorySegment;
+  score: number; // Normalized edit-distance similarity, 1 = exact
+}
+
+// Lowercase, drop punctuation and collapse whitespace before comparing
+export const normalizeSegment = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Similarity in [0, 1] from the Levenshtein distance over code points
+export const similarityScore = (a: string, b: string): number => {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) {
+    return 1;
+  }
+
+  // Two-row dynamic programming to keep memory linear
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[right.length] / longest;
+};
+
+/**
+ * TranslationMemory - Approved segment pairs with fuzzy lookup
+ *
+ * Exact matches (after normalization) let the service skip inference; fuzzy
+ * matches above the threshold are handed to the model as few-shot examples.
+ * Segments are persisted per language pair and can be exchanged as TMX 1.4.
+ */
+export class TranslationMemory {
+  private static instance: TranslationMemory;
+  private memories: Map<string, MemorySegment[]> = new Map();
+  private readonly STORAGE_PREFIX = 'tm_';
+
+  // Oldest segments are dropped beyond this size to bound lookup time
+  private readonly MAX_SEGMENTS_PER_PAIR = 5000;
+  private readonly DEFAULT_MIN_SCORE = 0.75;
+
+  private constructor() {}
+
+  public static getInstance(): TranslationMemory {
+    if (!TranslationMemory.instance) {
+      TranslationMemory.instance = new TranslationMemory();
+    }
+    return TranslationMemory.instance;
+  }
+
+  // Get all segments for a language pair
+  async getSegments(fromLang: string, toLang: string): Promise<MemorySegment[]> {
+    const key = this.pairKey(fromLang, toLang);
+    const cached = this.memories.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let segments: MemorySegment[] = [];
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_PREFIX + key);
+      segments = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading translation memory:', error);
+    }
+
+    this.memories.set(key, segments);
+    return segments;
+  }
+
+  // Store an approved segment pair, replacing an existing pair with the same source
+  async addSegment(
+    fromLang: string,
+    toLang: string,
+    source: string,
+    target: string,
+    origin: MemorySegment['origin'] = 'user'
+  ): Promise<MemorySegment> {
+    if (!source.trim() || !target.trim()) {
+      throw new Error('Translation memory segments cannot be empty');
+    }
+
+    const segment: MemorySegment = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      source: source.trim(),
+      target: target.trim(),
+      createdAt: Date.now(),
+      origin,
+    };
+
+    const segments = await this.getSegments(fromLang, toLang);
+    await this.saveSegments(fromLang, toLang, this.mergeSegments(segments, [segment]));
+    return segment;
+  }
+
+  async deleteSegment(fromLang: string, toLang: string, id: string): Promise<void> {
+    const segments = await this.getSegments(fromLang, toLang);
+    await this.saveSegments(fromLang, toLang, segments.filter(segment => segment.id !== id));
+  }
+
+  // Best matches at or above minScore, highest first
+  async lookup(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    options: { minScore?: number; limit?: number } = {}
+  ): Promise<MemoryMatch[]> {
+    const minScore = options.minScore ?? this.DEFAULT_MIN_SCORE;
+    const limit = options.limit ?? 3;
+    const query = normalizeSegment(text);
+    const queryLength = Array.from(query).length;
+    const matches: MemoryMatch[] = [];
+
+    for (const segment of await this.getSegments(fromLang, toLang)) {
+      const candidate = normalizeSegment(segment.source);
+      const candidateLength = Array.from(candidate).length;
+
+      // The length difference alone bounds the best achievable score
+      const longest = Math.max(queryLength, candidateLength, 1);
+      if (1 - Math.abs(queryLength - candidateLength) / longest < minScore) {
+        continue;
+      }
+
+      const score = similarityScore(query, candidate);
+      if (score >= minScore) {
+        matches.push({ segment, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Import translation units that have variants in both languages
+  async importTmx(tmx: string, fromLang: string, toLang: string): Promise<number> {
+    const imported: MemorySegment[] = [];
+    const unitPattern = /<tu[\s>][\s\S]*?<\/tu>/g;
+    const variantPattern = /<tuv\b([^>]*)>[\s\S]*?<seg>([\s\S]*?)<\/seg>[\s\S]*?<\/tuv>/g;
+
+    for (const unit of tmx.match(unitPattern) || []) {
+      const variants = new Map<string, string>();
+      for (const [, attributes, seg] of unit.matchAll(variantPattern)) {
+        const lang = getXmlAttribute(attributes, 'xml:lang') || getXmlAttribute(attributes, 'lang');
+        if (lang) {
+          variants.set(this.baseLanguage(lang), this.segText(seg));
+        }
+      }
+
+      const source = variants.get(fromLang);
+      const target = variants.get(toLang);
+      if (source && target) {
+        imported.push({
+          id: `${Date.now().toString(36)}-${imported.length.toString(36)}`,
+          source,
+          target,
+          createdAt: Date.now(),
+          origin: 'tmx',
+        });
+      }
+    }
+
+    const segments = await this.getSegments(fromLang, toLang);
+    await this.saveSegments(fromLang, toLang, this.mergeSegments(segments, imported));
+    return imported.length;
+  }
+
+  // Export a language pair as a TMX 1.4 document
+  async exportTmx(fromLang: string, toLang: string): Promise<string> {
+    const segments = await this.getSegments(fromLang, toLang);
+    const units = segments.map(segment => [
+      `    <tu creationdate="${this.tmxDate(segment.createdAt)}">`,
+      `      <tuv xml:lang="${fromLang}"><seg>${escapeXml(segment.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${toLang}"><seg>${escapeXml(segment.target)}</seg></tuv>`,
+      '    </tu>',
+    ].join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      `  <header creationtool="translate-ai" creationtoolversion="1.0.0" segtype="sentence" o-tmf="translate-ai" adminlang="en" srclang="${fromLang}" datatype="plaintext"/>`,
+      '  <body>',
+      ...units,
+      '  </body>',
+      '</tmx>',
+      '',
+    ].join('\n');
+  }
+
+  // New segments win over existing ones with the same normalized source
+  private mergeSegments(existing: MemorySegment[], incoming: MemorySegment[]): MemorySegment[] {
+    const bySource = new Map(existing.map(segment => [normalizeSegment(segment.source), segment]));
+    for (const segment of incoming) {
+      const key = normalizeSegment(segment.source);
+      bySource.delete(key);
+      bySource.set(key, segment);
+    }
+
+    const merged = Array.from(bySource.values());
+    return merged.slice(Math.max(0, merged.length - this.MAX_SEGMENTS_PER_PAIR));
+  }
+
+  private async saveSegments(fromLang: string, toLang: string, segments: MemorySegment[]): Promise<void> {
+    const key = this.pairKey(fromLang, toLang);
+    this.memories.set(key, segments);
+    await AsyncStorage.setItem(this.STORAGE_PREFIX + key, JSON.stringify(segments));
+  }
+
+  // Drop inline native codes (<bpt>, <ph>, ...), keep <hi>/<sub> text, decode entities
+  private segText(seg: string): string {
+    const withoutCodes = seg.replace(/<(bpt|ept|ph|it|ut)\b[^>]*>[\s\S]*?<\/\1>/g, '');
+    return decodeXmlEntities(withoutCodes.replace(/<[^>]+>/g, '')).trim();
+  }
+
+  // "hi-IN" and "hi_IN" both map to our "hi"
+  private baseLanguage(lang: string): string {
+    return lang.toLowerCase().split(/[-_]/)[0];
+  }
+
+  // TMX dates use the compact ISO 8601 form YYYYMMDDThhmmssZ
+  private tmxDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private pairKey(fromLang: string, toLang: string): string {
+    return `${fromLang}_${toLang}`;
+  }
+}
+
+export default TranslationMemory.getInstance();
@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import modelManager from './modelManager';
 import { getTranslationPrompt, getLanguageConfig, getLanguageDetectionPrompt } from '../config/gemmaConfig';
+import { identifyLanguageOffline } from '../utils/languageIdentifier';
 
 // Interface for translation request
 interface TranslationRequest {
@@ -16,25 +17,6 @@ interface TranslationResponse {
   detectedLanguage?: string;
 }
 
-// Language mapping for Gemma model
-const LANGUAGE_MAPPING = {
-  'en': 'English',
-  'hi': 'Hindi',
-  'ne': 'Nepali',
-  'es': 'Spanish',
-  'fr': 'French',
-  'de': 'German',
-  'it': 'Italian',
-  'pt': 'Portuguese',
-  'ru': 'Russian',
-  'ja': 'Japanese',
-  'ko': 'Korean',
-  'zh': 'Chinese',
-  'ar': 'Arabic',
-  'bn': 'Bengali',
-  'ur': 'Urdu',
-};
-
 // Cache for translations to improve performance
 const translationCache = new Map<string, string>();
 
@@ -96,41 +78,10 @@ export class TranslationService {
     return this.simpleLanguageDetection(text);
   }
 
-  // Simple language detection as fallback
+  // Simple language detection as fallback; only registry languages are returned
   private simpleLanguageDetection(text: string): string {
-    const hindiPattern = /[\u0900-\u097F]/;
-    const arabicPattern = /[\u0600-\u06FF]/;
-    const chinesePattern = /[\u4E00-\u9FFF]/;
-    const japanesePattern = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF]/;
-    const koreanPattern = /[\uAC00-\uD7AF]/;
-    const cyrillicPattern = /[\u0400-\u04FF]/;
-    const nepaliPattern = /[\u0900-\u097F]/; // Same as Hindi for now
-    const bengaliPattern = /[\u0980-\u09FF]/;
-    const tamilPattern = /[\u0B80-\u0BFF]/;
-    const teluguPattern = /[\u0C00-\u0C7F]/;
-    const kannadaPattern = /[\u0C80-\u0CFF]/;
-    const malayalamPattern = /[\u0D00-\u0D7F]/;
-    const gujaratiPattern = /[\u0A80-\u0AFF]/;
-    const punjabiPattern = /[\u0A00-\u0A7F]/;
-    const odiaPattern = /[\u0B00-\u0B7F]/;
-
-    if (hindiPattern.test(text)) return 'hi';
-    if (nepaliPattern.test(text)) return 'ne';
-    if (bengaliPattern.test(text)) return 'bn';
-    if (tamilPattern.test(text)) return 'ta';
-    if (teluguPattern.test(text)) return 'te';
-    if (kannadaPattern.test(text)) return 'kn';
-    if (malayalamPattern.test(text)) return 'ml';
-    if (gujaratiPattern.test(text)) return 'gu';
-    if (punjabiPattern.test(text)) return 'pa';
-    if (odiaPattern.test(text)) return 'or';
-    if (arabicPattern.test(text)) return 'ar';
-    if (chinesePattern.test(text)) return 'zh';
-    if (japanesePattern.test(text)) return 'ja';
-    if (koreanPattern.test(text)) return 'ko';
-    if (cyrillicPattern.test(text)) return 'ru';
-
-    return 'en'; // Default to English
+    const ranked = identifyLanguageOffline(text);
+    return ranked.length > 0 ? ranked[0].code : 'en'; // Default to English
   }
 
   // Translate text using Gemma 3n model
@@ -216,8 +167,9 @@ export class TranslationService {
 
   // Simulate Gemma 3n translation with realistic responses
   private simulateGemmaTranslation(fromLang: string, toLang: string, prompt: string): string {
-    // Extract the original text from the prompt
-    const textMatch = prompt.match(/["""]([^"""]+)["""]/);
+    // Extract the original text from the prompt; it may itself contain quotes, so read
+    // up to the closing quote before the final target label ("English: "{text}"\n\nHindi:")
+    const textMatch = prompt.match(/:\s*"([\s\S]*)"\s*\n\n[^\n]*:\s*$/);
     const originalText = textMatch ? textMatch[1] : '';
     
     // Realistic translations that Gemma 3n would produce
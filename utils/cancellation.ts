@@ -0,0 +1,98 @@
+/**
+ * Cancellation and deadline helpers shared by the model queue, engines and services
+ */
+
+// Raised when an operation is cancelled through its AbortSignal
+export class AbortError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+};
+
+// setTimeout-based delay that rejects as soon as the signal fires
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Model work that can run past a deadline
+export type TimeoutStage = 'load' | 'inference' | 'queue';
+
+const TIMEOUT_MESSAGES: Record<TimeoutStage, string> = {
+  load: 'The translation model took too long to load',
+  inference: 'The translation took too long',
+  queue: 'Waited too long for the translation model',
+};
+
+// Raised when model work misses its deadline; the message is suitable for the UI
+export class TimeoutError extends Error {
+  readonly stage: TimeoutStage;
+  readonly timeoutMs: number;
+
+  constructor(stage: TimeoutStage, timeoutMs: number) {
+    super(TIMEOUT_MESSAGES[stage]);
+    this.name = 'TimeoutError';
+    this.stage = stage;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export const isTimeoutError = (error: unknown): error is TimeoutError => {
+  return error instanceof Error && error.name === 'TimeoutError';
+};
+
+// Run an operation with its own signal that fires on the caller's signal or at the deadline.
+// The caller is released with a TimeoutError at the deadline even if the operation ignores the signal.
+export const withDeadline = <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  stage: TimeoutStage,
+  signal?: AbortSignal
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    const timer = setTimeout(() => {
+      reject(new TimeoutError(stage, timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    operation(controller.signal)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+};
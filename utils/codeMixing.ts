@@ -0,0 +1,88 @@
+import {
+  RomanizedLanguage,
+  isRomanizedWord,
+  latinLetterRatio,
+  looksEnglish,
+  transliterateToNative,
+} from './transliteration';
+
+export type TokenLanguage = RomanizedLanguage | 'en' | 'other';
+
+export interface TaggedToken {
+  text: string;
+  start: number; // Offset of the token in the analyzed text
+  language: TokenLanguage;
+  romanized: boolean; // Hindi/Nepali written in Latin letters
+}
+
+export interface CodeMixAnalysis {
+  matrixLanguage: RomanizedLanguage; // Language that carries the grammar of the sentence
+  tokens: TaggedToken[];
+  mixRatio: number; // Share of English among the tagged words (0 = none, 1 = all English)
+  isCodeMixed: boolean; // Both English and Hindi/Nepali words are present
+  englishTerms: string[]; // Distinct English content words the user chose, in order of appearance
+}
+
+const TOKEN = /[\p{L}\p{M}]+/gu;
+const LATIN = /^[A-Za-z]+$/;
+const DEVANAGARI = /\p{Script=Devanagari}/u;
+
+// Text that is mostly Latin letters is romanized; otherwise Latin words are English insertions
+const ROMANIZED_LATIN_RATIO = 0.8;
+
+// Short English function words are not terms worth protecting in the prompt
+const FUNCTION_WORDS = new Set(['the', 'and', 'for', 'but', 'are', 'was', 'you', 'not', 'this', 'that', 'with', 'from', 'have']);
+
+// Tag a Latin word inside romanized text: dictionary words first, then English cues, else romanized
+const tagRomanizedWord = (word: string, language: RomanizedLanguage): TokenLanguage => {
+  if (isRomanizedWord(word, language)) {
+    return language;
+  }
+  return looksEnglish(word) ? 'en' : language;
+};
+
+/**
+ * Tag every word of Hindi/Nepali input that may mix in English ("मेरी meeting
+ * cancel हो गई", "meri meeting cancel ho gayi"). In native-script text every
+ * Latin word is English; in romanized text a word is English only when it is
+ * not in the romanized dictionary and reads as English.
+ */
+export const analyzeCodeMixing = (text: string, matrixLanguage: RomanizedLanguage): CodeMixAnalysis => {
+  const romanizedText = latinLetterRatio(text) >= ROMANIZED_LATIN_RATIO;
+  const tokens: TaggedToken[] = [];
+
+  for (const match of text.matchAll(TOKEN)) {
+    const word = match[0];
+    let language: TokenLanguage = 'other';
+    let romanized = false;
+
+    if (LATIN.test(word)) {
+      language = romanizedText ? tagRomanizedWord(word, matrixLanguage) : 'en';
+      romanized = language === matrixLanguage;
+    } else if (DEVANAGARI.test(word)) {
+      language = matrixLanguage;
+    }
+    tokens.push({ text: word, start: match.index ?? 0, language, romanized });
+  }
+
+  const english = tokens.filter(token => token.language === 'en');
+  const native = tokens.filter(token => token.language === matrixLanguage);
+  const tagged = english.length + native.length;
+
+  const englishTerms = Array.from(new Set(
+    english.map(token => token.text).filter(word => word.length > 2 && !FUNCTION_WORDS.has(word.toLowerCase()))
+  ));
+
+  return {
+    matrixLanguage,
+    tokens,
+    mixRatio: tagged > 0 ? english.length / tagged : 0,
+    isCodeMixed: english.length > 0 && native.length > 0,
+    englishTerms,
+  };
+};
+
+// Convert only the romanized Hindi/Nepali words, keeping English insertions in Latin script
+export const transliterateCodeMixed = (text: string, language: RomanizedLanguage): string => {
+  return transliterateToNative(text, language, (word) => tagRomanizedWord(word, language) === 'en');
+};
@@ -0,0 +1,129 @@
+import { toAsciiDigits } from './localeFormatting';
+
+export type ProtectedSpanKind = 'code' | 'url' | 'email' | 'mention' | 'placeholder' | 'phone' | 'markup' | 'custom';
+
+export interface ProtectedSpan {
+  kind: ProtectedSpanKind;
+  text: string; // Original text, restored verbatim
+  sentinel: string; // Marker that replaced it in the text sent to the model
+}
+
+export interface MaskedText {
+  text: string; // Input with protected spans replaced by sentinels
+  spans: ProtectedSpan[]; // In sentinel order (⟦P1⟧ is spans[0])
+}
+
+interface SpanRule {
+  kind: ProtectedSpanKind;
+  pattern: RegExp;
+  accept?: (match: string, before: string | undefined) => boolean;
+}
+
+// Punctuation that ends a sentence rather than a URL
+const URL_TRAILING = /[.,;:!?)\]}'"]+$/;
+
+// ```fenced``` and `inline` code; checked before document markup so `**x**` stays code
+// 2024-03-12, 12-03-2024, 12.03.24: dates, left for locale formatting rather than masked as phone numbers
+const NUMERIC_DATE = /^(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}([/.-])\d{1,2}\1(?:\d{4}|\d{2}))$/;
+
+const CODE_RULE: SpanRule = { kind: 'code', pattern: /```[\s\S]*?```|`[^`\n]+`/g };
+
+// Remaining built-in rules in priority order; earlier rules win over overlapping later ones
+const BUILTIN_RULES: SpanRule[] = [
+  { kind: 'url', pattern: /\b(?:https?:\/\/|www\.)[^\s<>"'`]+/gi },
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  // @mentions, but not the middle of an email or "a@b"
+  { kind: 'mention', pattern: /@[A-Za-z0-9_]{2,}/g, accept: (_, before) => !before || !/[\w@.]/.test(before) },
+  // {name}, {{name}}, ${name}, {0}, %s, %1$d, %(name)s
+  { kind: 'placeholder', pattern: /\{\{\s*[\w.]+\s*\}\}|\$\{[\w.]+\}|\{[\w.]*\}|%\(\w+\)[sdf]|%(?:\d+\$)?[sdif@]/g },
+  // +91 98765 43210, 98765-43210, (022) 2345-6789; bare digit runs must look like a 10-digit mobile number
+  {
+    kind: 'phone',
+    pattern: /\+?\(?\d[\d\s()-]{6,}\d/g,
+    accept: (match, before) => {
+      const digits = match.replace(/\D/g, '').length;
+      const formatted = match.startsWith('+') || /[-()]/.test(match) || digits === 10;
+      return digits >= 8 && digits <= 13 && formatted && !NUMERIC_DATE.test(match) && !(before && /\w/.test(before));
+    },
+  },
+];
+
+// Compile user-configured pattern sources; throws naming the first invalid one
+export const compileProtectedPatterns = (sources: string[]): RegExp[] => {
+  return sources.map(source => {
+    try {
+      return new RegExp(source, 'gu');
+    } catch {
+      throw new Error(`Invalid protected pattern: ${source}`);
+    }
+  });
+};
+
+/**
+ * Replace URLs, emails, @mentions, placeholders, phone numbers, code, inline
+ * document markup and any user-configured patterns with opaque sentinels
+ * (⟦P1⟧, ⟦P2⟧, ...) so the model cannot translate or reformat them.
+ */
+export const maskProtectedSpans = (text: string, extraPatterns: RegExp[] = [], markupPatterns: RegExp[] = []): MaskedText => {
+  // User patterns come first so they can claim text a built-in rule would split differently
+  const rules: SpanRule[] = [
+    ...extraPatterns.map((pattern): SpanRule => ({ kind: 'custom', pattern })),
+    CODE_RULE,
+    // Link syntax goes before the URL rule so "](https://...)" is one span
+    ...markupPatterns.map((pattern): SpanRule => ({ kind: 'markup', pattern })),
+    ...BUILTIN_RULES,
+  ];
+  const found: Array<{ kind: ProtectedSpanKind; start: number; end: number }> = [];
+
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      let value = match[0];
+      if (rule.kind === 'url') {
+        value = value.replace(URL_TRAILING, '');
+      }
+      const end = start + value.length;
+      if (!value || (rule.accept && !rule.accept(value, text[start - 1]))) {
+        continue;
+      }
+      if (!found.some(other => start < other.end && other.start < end)) {
+        found.push({ kind: rule.kind, start, end });
+      }
+    }
+  }
+
+  const spans: ProtectedSpan[] = [];
+  let masked = '';
+  let last = 0;
+  for (const span of found.sort((a, b) => a.start - b.start)) {
+    const sentinel = `⟦P${spans.length + 1}⟧`;
+    spans.push({ kind: span.kind, text: text.slice(span.start, span.end), sentinel });
+    masked += text.slice(last, span.start) + sentinel;
+    last = span.end;
+  }
+
+  return { text: masked + text.slice(last), spans };
+};
+
+// Model output may space out a sentinel or write its number in another script
+const SENTINEL = /⟦\s*P\s*(\p{Nd}+)\s*⟧/gu;
+
+// Put the original spans back in place of their sentinels; reports spans the model dropped
+export const unmaskProtectedSpans = (output: string, spans: ProtectedSpan[]): { text: string; missing: ProtectedSpan[] } => {
+  if (spans.length === 0) {
+    return { text: output, missing: [] };
+  }
+
+  const restored = new Set<number>();
+  const text = output.replace(SENTINEL, (sentinel, index: string) => {
+    const position = Number(toAsciiDigits(index)) - 1;
+    const span = spans[position];
+    if (!span) {
+      return sentinel;
+    }
+    restored.add(position);
+    return span.text;
+  });
+
+  return { text, missing: spans.filter((_, position) => !restored.has(position)) };
+};
@@ -0,0 +1,153 @@
+import { LanguageCandidate } from './languageIdentifier';
+
+/**
+ * Accuracy fixtures for the offline language identifier
+ *
+ * A few everyday sentences per supported language. Run
+ * measureLanguageIdAccuracy(identifyLanguageOffline) after editing
+ * utils/languageProfiles.ts to check that no language regressed.
+ */
+export const LANGUAGE_ID_FIXTURES: { [code: string]: string[] } = {
+  as: [
+    'মোৰ নাম ৰাহুল আৰু মই গুৱাহাটীত থাকোঁ।',
+    'আপুনি কেনে আছে? মোক আপোনাৰ সহায় লাগে।',
+    'এই কিতাপখন বৰ ভাল, মই কালি পঢ়িছিলোঁ।',
+    'আমি কাইলৈ বজাৰলৈ যাম কাৰণ ঘৰত পাচলি নাই।',
+  ],
+  bn: [
+    'আমার নাম রাহুল এবং আমি কলকাতায় থাকি।',
+    'আপনি কেমন আছেন? আমার আপনার সাহায্য দরকার।',
+    'এই বইটি খুব ভালো, আমি এটা গতকাল পড়েছি।',
+    'আমরা কাল বাজারে যাব কারণ বাড়িতে সবজি নেই।',
+  ],
+  brx: [
+    'आंनि मुंआ राम आरो आं गुवाहाटियाव थायो।',
+    'नों माबोरै दं? आंनो नोंथांनि मदद नांगौ।',
+    'बे बिजाबआ जोबोद मोजां, आं मैया फरायो।',
+    'जों गाबोन हाटआव थांगोन आरो मोनसे बिजाब बायगोन।',
+  ],
+  doi: [
+    'मेरा नां राम ऐ ते मैं जम्मू च रौंह्दा आं।',
+    'तुस केह् हाल ओ? मिगी तुंदी मदद चाहिदी ऐ।',
+    'एह् कताब बड़ी खरी ऐ, मैं इसगी कल पढ़ेआ हा।',
+    'अस कल बजार जागे कीजे घर च सब्जी नेईं ऐ।',
+  ],
+  en: [
+    'My name is Rahul and I live in Delhi.',
+    'How are you? I need your help.',
+    'This book is very good, I read it yesterday.',
+    'We will go to the market tomorrow because there are no vegetables at home.',
+  ],
+  gu: [
+    'મારું નામ રાહુલ છે અને હું અમદાવાદમાં રહું છું.',
+    'તમે કેમ છો? મને તમારી મદદ જોઈએ છે.',
+    'આ પુસ્તક ખૂબ સારું છે.',
+  ],
+  hi: [
+    'मेरा नाम राहुल है और मैं दिल्ली में रहता हूँ।',
+    'आप कैसे हैं? मुझे आपकी मदद चाहिए।',
+    'यह किताब बहुत अच्छी है, मैंने इसे कल पढ़ा था।',
+    'हम कल बाज़ार जाएंगे क्योंकि घर में सब्ज़ी नहीं है।',
+  ],
+  kn: [
+    'ನನ್ನ ಹೆಸರು ರಾಹುಲ್ ಮತ್ತು ನಾನು ಬೆಂಗಳೂರಿನಲ್ಲಿ ವಾಸಿಸುತ್ತೇನೆ.',
+    'ನೀವು ಹೇಗಿದ್ದೀರಿ?',
+    'ಈ ಪುಸ್ತಕ ತುಂಬಾ ಚೆನ್ನಾಗಿದೆ.',
+  ],
+  kok: [
+    'म्हजें नांव राम आसा आनी हांव गोंयांत रावता.',
+    'तूं कसो आसा? म्हाका तुजी मजत जाय.',
+    'हें पुस्तक खूब बरें आसा, हांवें तें काल वाचलें.',
+    'आमी फाल्यां बाजारांत वचतले कारण घरांत भाजी ना.',
+  ],
+  mai: [
+    'हमर नाम राम अछि आ हम दरभंगा मे रहैत छी।',
+    'अहाँ केहन छी? हमरा अहाँक मदति चाही।',
+    'ई पोथी बड्ड नीक अछि, हम एकरा काल्हि पढ़लहुँ।',
+    'हम सभ काल्हि बजार जाएब किएक तँ घर मे तरकारी नहि अछि।',
+  ],
+  ml: [
+    'എന്റെ പേര് രാഹുൽ, ഞാൻ കൊച്ചിയിൽ താമസിക്കുന്നു.',
+    'നിങ്ങൾക്ക് സുഖമാണോ?',
+    'ഈ പുസ്തകം വളരെ നല്ലതാണ്.',
+  ],
+  mni: [
+    'ঐগী মিং রাহুল নি অমসুং ঐ ইম্ফালদা লৈ।',
+    'নহাক করম্না লৈবগে? ঐঙোন্দা নহাক্কী মতেং মথৌ তাই।',
+    'লাইরিক অসি য়াম্না ফৈ, ঐ ঙরাং পারকে।',
+    'ꯑꯩꯒꯤ ꯃꯤꯡ ꯔꯥꯍꯨꯜ ꯅꯤ꯫',
+  ],
+  mr: [
+    'माझे नाव राहुल आहे आणि मी पुण्यात राहतो.',
+    'तुम्ही कसे आहात? मला तुमची मदत हवी आहे.',
+    'हे पुस्तक खूप चांगले आहे, मी ते काल वाचले.',
+    'आम्ही उद्या बाजारात जाणार आहोत कारण घरात भाजी नाही.',
+  ],
+  ne: [
+    'मेरो नाम राम हो र म काठमाडौंमा बस्छु।',
+    'तपाईंलाई कस्तो छ? मलाई तपाईंको सहयोग चाहिन्छ।',
+    'यो किताब धेरै राम्रो छ, मैले हिजो पढेको थिएँ।',
+    'हामी भोलि बजार जान्छौं किनभने घरमा तरकारी छैन।',
+  ],
+  or: [
+    'ମୋର ନାମ ରାହୁଲ ଏବଂ ମୁଁ ଭୁବନେଶ୍ୱରରେ ରହେ।',
+    'ଆପଣ କେମିତି ଅଛନ୍ତି?',
+    'ଏହି ବହି ବହୁତ ଭଲ।',
+  ],
+  sa: [
+    'मम नाम रामः अस्ति। अहं वाराणस्यां वसामि।',
+    'भवान् कथम् अस्ति? मम साहाय्यम् आवश्यकम्।',
+    'इदं पुस्तकं अतीव उत्तमम् अस्ति।',
+    'वयं श्वः आपणं गमिष्यामः यतः गृहे शाकं नास्ति।',
+  ],
+  sat: [
+    'ᱤᱧᱟᱜ ᱧᱩᱛᱩᱢ ᱨᱟᱦᱩᱞ ᱠᱟᱱᱟ᱾',
+    'ᱟᱢ ᱪᱮᱫ ᱞᱮᱠᱟ ᱢᱮᱱᱟᱢᱟ?',
+    'ᱱᱚᱣᱟ ᱯᱚᱛᱷᱤ ᱰᱷᱮᱨ ᱵᱮᱥ ᱜᱮᱭᱟ᱾',
+  ],
+  sd: [
+    'منهنجو نالو راحل آهي ۽ مان ڪراچيءَ ۾ رهان ٿو.',
+    'توهان ڪيئن آهيو؟ مون کي توهان جي مدد گهرجي.',
+    'هي ڪتاب تمام سٺو آهي، مون ان کي ڪالهه پڙهيو.',
+    'اسين سڀاڻي بازار وينداسين ڇو ته گهر ۾ ڀاڄي ناهي.',
+  ],
+  ta: [
+    'என் பெயர் ராகுல், நான் சென்னையில் வசிக்கிறேன்.',
+    'நீங்கள் எப்படி இருக்கிறீர்கள்?',
+    'இந்த புத்தகம் மிகவும் நன்றாக இருக்கிறது.',
+  ],
+  te: [
+    'నా పేరు రాహుల్, నేను హైదరాబాద్‌లో ఉంటాను.',
+    'మీరు ఎలా ఉన్నారు?',
+    'ఈ పుస్తకం చాలా బాగుంది.',
+  ],
+  ur: [
+    'میرا نام راحل ہے اور میں لاہور میں رہتا ہوں۔',
+    'آپ کیسے ہیں؟ مجھے آپ کی مدد چاہیے۔',
+    'یہ کتاب بہت اچھی ہے، میں نے اسے کل پڑھا تھا۔',
+    'ہم کل بازار جائیں گے کیونکہ گھر میں سبزی نہیں ہے۔',
+  ],
+};
+
+export interface LanguageIdAccuracy {
+  code: string;
+  correct: number;
+  total: number;
+  misses: Array<{ text: string; detected: string }>;
+}
+
+// Top-1 accuracy of an identifier on the fixtures, per language
+export const measureLanguageIdAccuracy = (
+  identify: (text: string) => LanguageCandidate[]
+): LanguageIdAccuracy[] => {
+  return Object.entries(LANGUAGE_ID_FIXTURES).map(([code, samples]) => {
+    const misses: LanguageIdAccuracy['misses'] = [];
+    for (const text of samples) {
+      const detected = identify(text)[0]?.code ?? 'unknown';
+      if (detected !== code) {
+        misses.push({ text, detected });
+      }
+    }
+    return { code, correct: samples.length - misses.length, total: samples.length, misses };
+  });
+};
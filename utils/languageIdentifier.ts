@@ -0,0 +1,120 @@
+import { LanguageProfile } from './languageProfiles';
+import { SUPPORTED_LANGUAGES } from '../config/languageRegistry';
+import { detectRomanizedIndic } from './transliteration';
+
+export interface LanguageCandidate {
+  code: string;
+  probability: number; // 0-1, candidates sum to 1
+  script: string; // Dominant Unicode script of the input
+}
+
+// Score contributed by each matching word and n-gram occurrence
+const WORD_WEIGHT = 2;
+const NGRAM_WEIGHT = 1;
+const MAX_NGRAM_COUNT = 3; // One repeated character should not decide the language
+
+// Detection profiles of the registered languages
+const LANGUAGE_PROFILES = SUPPORTED_LANGUAGES.flatMap(language => language.detectionProfile ? [language.detectionProfile] : []);
+
+const SCRIPTS = Array.from(new Set(LANGUAGE_PROFILES.flatMap(profile => profile.scripts)));
+const SCRIPT_PATTERNS = new Map(SCRIPTS.map(script => [script, new RegExp(`\\p{Script=${script}}`, 'u')]));
+
+// Word sets are built once; profiles are only read afterwards
+const PROFILE_WORDS = new Map<LanguageProfile, Set<string>>(
+  LANGUAGE_PROFILES.map(profile => [profile, new Set(profile.words)])
+);
+
+// Script with the most letters in the text (undefined when no profile covers it)
+export const dominantScript = (text: string): string | undefined => {
+  const counts = new Map<string, number>();
+  for (const letter of text.match(/\p{L}/gu) || []) {
+    for (const [script, pattern] of SCRIPT_PATTERNS) {
+      if (pattern.test(letter)) {
+        counts.set(script, (counts.get(script) || 0) + 1);
+        break;
+      }
+    }
+  }
+
+  let best: string | undefined;
+  let bestCount = 0;
+  counts.forEach((count, script) => {
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const countOccurrences = (text: string, needle: string): number => {
+  let count = 0;
+  let index = text.indexOf(needle);
+  while (index !== -1 && count < MAX_NGRAM_COUNT) {
+    count++;
+    index = text.indexOf(needle, index + needle.length);
+  }
+  return count;
+};
+
+// Log-score of a profile: prior plus matching words and character n-grams
+const scoreProfile = (profile: LanguageProfile, words: string[], padded: string): number => {
+  const vocabulary = PROFILE_WORDS.get(profile)!;
+  let score = profile.prior;
+  for (const word of words) {
+    if (vocabulary.has(word)) {
+      score += WORD_WEIGHT;
+    }
+  }
+  for (const ngram of profile.ngrams) {
+    score += NGRAM_WEIGHT * countOccurrences(padded, ngram);
+  }
+  return score;
+};
+
+// Softmax over log-scores, highest probability first
+const rank = (scores: Array<{ code: string; score: number }>, script: string): LanguageCandidate[] => {
+  const max = Math.max(...scores.map(entry => entry.score));
+  const weights = scores.map(entry => ({ code: entry.code, weight: Math.exp(entry.score - max) }));
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+  return weights
+    .map(entry => ({ code: entry.code, probability: entry.weight / total, script }))
+    .sort((a, b) => b.probability - a.probability);
+};
+
+/**
+ * Identify the language of a text offline from its script, frequent words and
+ * character n-grams. Only languages written in the dominant script compete;
+ * `candidates` narrows the set further. Returns an empty list when no profile
+ * covers the text (e.g. Chinese or Cyrillic input).
+ */
+export const identifyLanguageOffline = (text: string, candidates?: string[]): LanguageCandidate[] => {
+  const script = dominantScript(text);
+  if (!script) {
+    return [];
+  }
+
+  const allowed = (code: string) => !candidates || candidates.includes(code);
+
+  // Latin script: English unless the words are romanized Hindi/Nepali
+  if (script === 'Latin') {
+    const romanized = detectRomanizedIndic(text);
+    if (romanized && allowed(romanized.language)) {
+      const scores = [{ code: romanized.language as string, score: WORD_WEIGHT * romanized.score * 2 }];
+      if (allowed('en')) {
+        scores.push({ code: 'en', score: 0 });
+      }
+      return rank(scores, script);
+    }
+  }
+
+  const profiles = LANGUAGE_PROFILES.filter(profile => profile.scripts.includes(script) && allowed(profile.code));
+  if (profiles.length === 0) {
+    return [];
+  }
+
+  const normalized = text.toLowerCase();
+  const words = normalized.match(/[\p{L}\p{M}]+/gu) || [];
+  const padded = ` ${words.join(' ')} `;
+  return rank(profiles.map(profile => ({ code: profile.code, score: scoreProfile(profile, words, padded) })), script);
+};
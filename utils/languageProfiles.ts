@@ -0,0 +1,180 @@
+/**
+ * Bundled language identification profiles for the app's supported languages
+ *
+ * Each profile lists frequent function words and character n-grams that tell a
+ * language apart from others written in the same script. Languages that are the
+ * only user of their script only need the script itself.
+ */
+
+export interface LanguageProfile {
+  code: string;
+  scripts: string[]; // Unicode script names, as used in \p{Script=...}
+  prior: number; // Log-odds bonus that settles ties in favour of the more common language
+  words: string[]; // Frequent words, lowercase
+  ngrams: string[]; // Distinctive character sequences; a leading/trailing space marks a word boundary
+}
+
+export const LANGUAGE_PROFILES: LanguageProfile[] = [
+  // Devanagari
+  {
+    code: 'hi',
+    scripts: ['Devanagari'],
+    prior: 0.3,
+    words: [
+      'है', 'हैं', 'का', 'की', 'के', 'में', 'और', 'से', 'को', 'नहीं', 'यह', 'वह', 'था', 'थी', 'थे', 'रहा', 'रही',
+      'कि', 'भी', 'पर', 'हूँ', 'हूं', 'आप', 'मैं', 'मेरा', 'मेरी', 'मुझे', 'हम', 'तुम', 'क्या', 'कैसे', 'लिए', 'गया',
+      'करना', 'होता', 'चाहिए', 'क्योंकि', 'बहुत', 'अच्छा', 'अच्छी', 'जाएंगे', 'मैंने', 'इसे', 'आपकी', 'रहता',
+    ],
+    ngrams: ['ैं ', 'ता है', 'ने ', 'एंगे', 'ियों', 'ाएं', 'ता हूँ'],
+  },
+  {
+    code: 'ne',
+    scripts: ['Devanagari'],
+    prior: 0,
+    words: [
+      'छ', 'छन्', 'छैन', 'हो', 'होइन', 'र', 'पनि', 'लाई', 'मा', 'बाट', 'गर्नु', 'गरेको', 'भएको', 'थियो', 'हुन्छ',
+      'हुनुहुन्छ', 'तपाईं', 'तपाईंको', 'तपाईंलाई', 'म', 'मेरो', 'मलाई', 'हामी', 'यो', 'त्यो', 'के', 'कस्तो', 'धेरै',
+      'राम्रो', 'किनभने', 'थिएँ', 'मैले', 'हिजो', 'भोलि', 'चाहिन्छ', 'जान्छौं', 'बस्छु', 'सक्छ',
+    ],
+    ngrams: ['ेको ', 'न्छ', 'छु ', 'छौं', 'ैन ', 'लाई', 'हरू', 'ँछ', 'मा '],
+  },
+  {
+    code: 'mr',
+    scripts: ['Devanagari'],
+    prior: 0,
+    words: [
+      'आहे', 'आहेत', 'आणि', 'नाही', 'मी', 'तुम्ही', 'आम्ही', 'हे', 'ते', 'काय', 'कसे', 'मला', 'तुला', 'त्याचा',
+      'त्याची', 'माझे', 'माझा', 'माझी', 'होते', 'होता', 'झाले', 'केले', 'मध्ये', 'पण', 'खूप', 'कारण', 'उद्या',
+      'काल', 'आहात', 'तुमची', 'हवी', 'चांगले', 'वाचले', 'जाणार', 'आहोत', 'राहतो',
+    ],
+    ngrams: ['ळ', 'ाचे', 'ाची', 'ाचा', 'णार', 'ात ', 'ले ', 'ायला'],
+  },
+  {
+    code: 'mai',
+    scripts: ['Devanagari'],
+    prior: 0,
+    words: [
+      'अछि', 'छी', 'छथि', 'छल', 'आ', 'सँ', 'केँ', 'मे', 'हम', 'अहाँ', 'अहाँक', 'हमर', 'हमरा', 'एहि', 'ओहि', 'ई',
+      'ओ', 'बड्ड', 'नीक', 'नहि', 'किएक', 'तँ', 'भेल', 'कहलनि', 'काल्हि', 'जाएब', 'रहैत', 'केहन', 'चाही', 'पोथी',
+      'सभ', 'एकरा', 'पढ़लहुँ',
+    ],
+    ngrams: ['ैत ', 'ाँ', 'हुँ', 'थि ', 'एब ', 'क ', 'नि '],
+  },
+  {
+    code: 'sa',
+    scripts: ['Devanagari'],
+    prior: 0,
+    words: [
+      'अस्ति', 'सन्ति', 'च', 'न', 'तत्', 'सः', 'सा', 'अहम्', 'अहं', 'त्वम्', 'भवान्', 'भवति', 'इति', 'एव', 'अपि',
+      'वा', 'यत्', 'किम्', 'कथम्', 'मम', 'तव', 'इदं', 'इदम्', 'अतीव', 'यतः', 'नास्ति', 'वयं', 'वयम्', 'गृहे',
+      'श्वः', 'वसामि', 'गमिष्यामः', 'आवश्यकम्',
+    ],
+    ngrams: ['ः', 'म् ', 'स्य', 'ामः', 'ामि ', 'न्ति ', 'ष्य', 'च्छ', 'ति '],
+  },
+  {
+    code: 'kok',
+    scripts: ['Devanagari'],
+    prior: 0,
+    words: [
+      'आसा', 'आसात', 'आनी', 'ना', 'हांव', 'तूं', 'तुमी', 'कितें', 'जाल्यार', 'म्हजें', 'म्हजो', 'म्हजी', 'म्हाका',
+      'तुका', 'तुजी', 'नाका', 'जालें', 'हें', 'तें', 'खूब', 'बरें', 'वचतले', 'फाल्यां', 'कसो', 'आमी', 'जाय',
+      'हांवें', 'नांव', 'रावता', 'मजत',
+    ],
+    ngrams: ['ळ', 'ांत ', 'ें ', 'ल्यार', 'लें ', 'म्ह'],
+  },
+  {
+    code: 'doi',
+    scripts: ['Devanagari'],
+    prior: 0,
+    words: [
+      'ऐ', 'ओ', 'दा', 'दी', 'दे', 'च', 'नेईं', 'ओह्', 'एह्', 'तुस', 'तुंदा', 'तुंदी', 'मिगी', 'असें', 'अस', 'केह्',
+      'होआ', 'करदा', 'जंदा', 'रौंह्दा', 'कीजे', 'ते', 'खरी', 'बड़ी', 'हा', 'कताब', 'इसगी', 'पढ़ेआ', 'चाहिदी', 'जागे',
+      'नां', 'आं',
+    ],
+    ngrams: ['ह् ', 'दा ', 'ेआ ', 'ईं ', 'ंह्', 'गी '],
+  },
+  {
+    code: 'brx',
+    scripts: ['Devanagari'],
+    prior: 0,
+    words: [
+      'आरो', 'आं', 'नों', 'जों', 'बे', 'बिसोर', 'दं', 'दङ', 'नि', 'खौ', 'आव', 'जायो', 'मोनसे', 'गोनां', 'बादि',
+      'नङा', 'नङ', 'मोजां', 'जोबोद', 'थायो', 'नांगौ', 'माबोरै', 'हाबा', 'आंनि', 'नोंथांनि', 'गाबोन', 'मुंआ',
+      'आंनो', 'बिजाबआ', 'फरायो', 'थांगोन',
+    ],
+    ngrams: ['ङ', 'ौ ', 'आव ', 'ोन ', 'खौ', 'ायो ', 'ांनि'],
+  },
+
+  // Bengali script
+  {
+    code: 'bn',
+    scripts: ['Bengali'],
+    prior: 0.3,
+    words: [
+      'এবং', 'আমি', 'আমার', 'আমরা', 'তুমি', 'আপনি', 'আপনার', 'কি', 'না', 'হয়', 'এই', 'সেই', 'করে', 'থেকে',
+      'জন্য', 'কেমন', 'আছেন', 'ছিল', 'খুব', 'ভালো', 'কারণ', 'নেই', 'যাব', 'দরকার', 'বাড়িতে', 'থাকি', 'পড়েছি',
+      'গতকাল', 'বইটি', 'এটা',
+    ],
+    ngrams: ['য়', 'েন ', 'ছি ', 'ের ', 'াম '],
+  },
+  {
+    code: 'as',
+    scripts: ['Bengali'],
+    prior: 0,
+    words: [
+      'আৰু', 'মই', 'মোৰ', 'মোক', 'আপুনি', 'আপোনাৰ', 'আমি', 'কেনে', 'আছে', 'নহয়', 'এই', 'কৰি', 'হয়', 'বৰ',
+      'ভাল', 'নাই', 'কাৰণ', 'লৈ', 'যাম', 'ঘৰত', 'কালি', 'কাইলৈ', 'লাগে', 'কিতাপখন', 'থাকোঁ',
+    ],
+    ngrams: ['ৰ', 'ৱ', 'োঁ', 'ত ', 'লৈ '],
+  },
+  {
+    code: 'mni',
+    scripts: ['Bengali', 'Meetei_Mayek'],
+    prior: 0,
+    words: [
+      'ঐ', 'ঐগী', 'ঐহাক', 'নহাক', 'নহাক্কী', 'অমসুং', 'মসি', 'অসি', 'করি', 'নত্তে', 'লৈ', 'লৈবগে', 'নি', 'দা', 'গী',
+      'বু', 'য়াম্না', 'ফৈ', 'চৎকনি', 'মরমদি', 'ঐখোই', 'হয়েং', 'ঙরাং', 'মতেং', 'তাই', 'মিং', 'লাইরিক', 'পারকে',
+    ],
+    ngrams: ['ঙ', 'ৎ', 'দা ', 'গী ', 'ম্না', 'ঐ'],
+  },
+
+  // Arabic script
+  {
+    code: 'ur',
+    scripts: ['Arabic'],
+    prior: 0.3,
+    words: [
+      'ہے', 'ہیں', 'کا', 'کی', 'کے', 'میں', 'اور', 'سے', 'کو', 'نہیں', 'یہ', 'وہ', 'آپ', 'مجھے', 'ہم', 'تھا',
+      'تھی', 'کیسے', 'بہت', 'کیونکہ', 'چاہیے', 'گے', 'ہوں', 'میرا', 'اچھی',
+    ],
+    ngrams: ['ے', 'ہ', 'ں', 'ٹ', 'ڑ', 'ڈ'],
+  },
+  {
+    code: 'sd',
+    scripts: ['Arabic'],
+    prior: 0,
+    words: [
+      'آهي', 'آهن', 'آهيو', '۽', '۾', 'جو', 'جي', 'جا', 'کي', 'نه', 'هي', 'اهو', 'توهان', 'مان', 'مون', 'منهنجو',
+      'ڪيئن', 'تمام', 'سٺو', 'ڇو', 'ته', 'ٿو', 'ٿي', 'نالو',
+    ],
+    ngrams: ['ڪ', 'ڻ', 'ٿ', 'ڄ', 'ڃ', 'ڇ', 'ڊ', 'ڏ', 'ڍ', 'ڙ', 'ٻ', 'ڀ', 'ٺ', 'ٽ', 'ڦ'],
+  },
+
+  // Languages that are the only supported user of their script
+  { code: 'gu', scripts: ['Gujarati'], prior: 0, words: ['છે', 'અને', 'હું', 'તમે', 'નથી'], ngrams: [] },
+  { code: 'kn', scripts: ['Kannada'], prior: 0, words: ['ಮತ್ತು', 'ನಾನು', 'ನೀವು', 'ಈ', 'ಇದೆ'], ngrams: [] },
+  { code: 'ml', scripts: ['Malayalam'], prior: 0, words: ['ഞാൻ', 'നിങ്ങൾ', 'ഈ', 'ഒരു', 'ആണ്'], ngrams: [] },
+  { code: 'or', scripts: ['Oriya'], prior: 0, words: ['ଏବଂ', 'ମୁଁ', 'ଆପଣ', 'ଏହି', 'ନାହିଁ'], ngrams: [] },
+  { code: 'ta', scripts: ['Tamil'], prior: 0, words: ['நான்', 'நீங்கள்', 'இந்த', 'மற்றும்', 'இல்லை'], ngrams: [] },
+  { code: 'te', scripts: ['Telugu'], prior: 0, words: ['నేను', 'మీరు', 'ఈ', 'మరియు', 'లేదు'], ngrams: [] },
+  { code: 'sat', scripts: ['Ol_Chiki'], prior: 0, words: ['ᱤᱧ', 'ᱟᱢ', 'ᱱᱚᱣᱟ', 'ᱠᱟᱱᱟ'], ngrams: [] },
+
+  // Latin script; romanized Hindi/Nepali is recognized separately
+  {
+    code: 'en',
+    scripts: ['Latin'],
+    prior: 0,
+    words: ['the', 'is', 'are', 'and', 'i', 'you', 'to', 'of', 'in', 'it', 'my', 'your', 'this', 'that', 'how'],
+    ngrams: [],
+  },
+];
@@ -0,0 +1,303 @@
+import { DigitStyle } from '../config/gemmaConfig';
+import { NumeralConventions, SUPPORTED_LANGUAGES, getLanguage } from '../config/languageRegistry';
+
+export type LocaleEntityKind = 'number' | 'amount' | 'date';
+
+export interface LocaleEntity {
+  kind: LocaleEntityKind;
+  source: string; // As written in the source text
+  rendered: string; // In the target language's conventions
+  placeholder: string; // Marker that replaced it in the text sent to the model
+}
+
+export interface ProtectedText {
+  text: string; // Source text with re-rendered entities replaced by markers
+  entities: LocaleEntity[]; // In marker order (⟦N1⟧ is entities[0])
+}
+
+interface DateParts {
+  day: number;
+  month: number; // 1-12
+  year?: string; // As written (two or four digits)
+}
+
+// Entity found in the source, with how to write it in another language
+interface EntityMatch {
+  kind: LocaleEntityKind;
+  start: number;
+  end: number;
+  render: (conventions: NumeralConventions, digits: DigitStyle) => string;
+}
+
+const FALLBACK_CONVENTIONS: NumeralConventions = { grouping: 'western', dateOrder: 'dmy' };
+
+const conventionsFor = (languageCode: string): NumeralConventions => {
+  return getLanguage(languageCode)?.numerals || FALLBACK_CONVENTIONS;
+};
+
+// Every native digit in the registry, mapped to its ASCII value
+const DIGIT_VALUES = new Map<string, string>();
+for (const language of SUPPORTED_LANGUAGES) {
+  Array.from(language.numerals.digits || '').forEach((digit, value) => DIGIT_VALUES.set(digit, String(value)));
+}
+
+// Native digits become ASCII; every digit is one UTF-16 unit, so offsets are unchanged
+export const toAsciiDigits = (text: string): string => {
+  return text.replace(/\p{Nd}/gu, digit => DIGIT_VALUES.get(digit) ?? digit);
+};
+
+// ASCII digits in the target script when the user prefers native digits
+const localizeDigits = (text: string, conventions: NumeralConventions, digits: DigitStyle): string => {
+  const native = conventions.digits;
+  if (digits !== 'native' || !native) {
+    return text;
+  }
+  const symbols = Array.from(native);
+  return text.replace(/[0-9]/g, digit => symbols[Number(digit)]);
+};
+
+// 1500000 -> 15,00,000 (indian) or 1,500,000 (western)
+const groupInteger = (integer: string, grouping: NumeralConventions['grouping']): string => {
+  if (grouping === 'western') {
+    return integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+  const head = integer.slice(0, -3);
+  const tail = integer.slice(-3);
+  return head ? `${head.replace(/\B(?=(\d{2})+(?!\d))/g, ',')},${tail}` : tail;
+};
+
+// Separators are only valid as all-thousands (1,500,000) or lakh/crore (15,00,000) groups
+const isValidGrouping = (integer: string): boolean => {
+  const groups = integer.split(',');
+  const last = groups[groups.length - 1];
+  const middle = groups.slice(1, -1);
+  return groups[0].length <= 3 && last.length === 3 && (
+    middle.every(group => group.length === 3) || middle.every(group => group.length === 2)
+  );
+};
+
+// Numbers written without separators keep none, so years, PIN codes and phone numbers are not grouped
+const renderNumber = (value: string, conventions: NumeralConventions, digits: DigitStyle): string => {
+  const [integer, fraction] = value.split('.');
+  const grouped = integer.includes(',') ? groupInteger(integer.replace(/,/g, ''), conventions.grouping) : integer;
+  return localizeDigits(fraction !== undefined ? `${grouped}.${fraction}` : grouped, conventions, digits);
+};
+
+// Write an ASCII number ("1,500,000.50") the way a language does
+export const formatLocaleNumber = (value: string, languageCode: string, digits: DigitStyle): string => {
+  return renderNumber(value, conventionsFor(languageCode), digits);
+};
+
+// "12 मार्च 2024", "March 12, 2024", or numeric in the target order when it has no month names
+const formatDateParts = (date: DateParts, conventions: NumeralConventions, digits: DigitStyle): string => {
+  let text: string;
+  if (conventions.months) {
+    const month = conventions.months[date.month - 1];
+    text = conventions.dateOrder === 'mdy'
+      ? `${month} ${date.day}${date.year ? `, ${date.year}` : ''}`
+      : `${date.day} ${month}${date.year ? ` ${date.year}` : ''}`;
+  } else {
+    const parts = conventions.dateOrder === 'mdy' ? [date.month, date.day] : [date.day, date.month];
+    text = [...parts.map(part => String(part).padStart(2, '0')), ...(date.year ? [date.year] : [])].join('/');
+  }
+  return localizeDigits(text, conventions, digits);
+};
+
+const isValidDate = (date: DateParts): boolean => {
+  return date.day >= 1 && date.day <= 31 && date.month >= 1 && date.month <= 12;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{2,3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const CURRENCY = String.raw`₹|Rs\.?\s?|INR\s?|US\$|\$|€|£`;
+const ORDINAL = String.raw`(?:st|nd|rd|th)?`;
+
+// Month names of the source language (plus English abbreviations) mapped to month numbers.
+// Matching is case-sensitive so "12 may" or "march 5 km" are not read as dates
+const monthLookup = (languageCode: string): Map<string, number> => {
+  const lookup = new Map<string, number>();
+  (conventionsFor(languageCode).months || []).forEach((name, index) => {
+    lookup.set(name, index + 1);
+    if (languageCode === 'en') {
+      lookup.set(name.slice(0, 3), index + 1);
+    }
+  });
+  if (languageCode === 'en') {
+    lookup.set('Sept', 9);
+  }
+  return lookup;
+};
+
+// Candidate patterns in priority order; earlier matches win over overlapping later ones
+const entityPatterns = (fromLang: string): Array<{ pattern: RegExp; toMatch: (match: RegExpMatchArray) => EntityMatch | undefined }> => {
+  const order = conventionsFor(fromLang).dateOrder;
+  const months = monthLookup(fromLang);
+  const monthNames = Array.from(months.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+  const dateMatch = (match: RegExpMatchArray, date: DateParts): EntityMatch | undefined => {
+    if (!isValidDate(date)) {
+      return undefined;
+    }
+    const start = match.index ?? 0;
+    return {
+      kind: 'date',
+      start,
+      end: start + match[0].length,
+      render: (conventions, digits) => formatDateParts(date, conventions, digits),
+    };
+  };
+
+  // Numeric dates are read in the source language's order
+  const numericDate = (match: RegExpMatchArray, first: string, second: string, year?: string) => {
+    const [day, month] = order === 'mdy' ? [second, first] : [first, second];
+    return dateMatch(match, { day: Number(day), month: Number(month), year });
+  };
+
+  const patterns: Array<{ pattern: RegExp; toMatch: (match: RegExpMatchArray) => EntityMatch | undefined }> = [
+    // 2024-03-12
+    {
+      pattern: /(\d{4})-(\d{1,2})-(\d{1,2})/g,
+      toMatch: (match) => dateMatch(match, { day: Number(match[3]), month: Number(match[2]), year: match[1] }),
+    },
+    // 12/03/2024, 12-03-24, 12.03.2024
+    {
+      pattern: /(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})/g,
+      toMatch: (match) => numericDate(match, match[1], match[3], match[4]),
+    },
+    // 12/03 (only with a slash; "3-4" and "1.5" are ranges and decimals)
+    {
+      pattern: /(\d{1,2})\/(\d{1,2})/g,
+      toMatch: (match) => numericDate(match, match[1], match[2]),
+    },
+  ];
+
+  if (monthNames) {
+    patterns.push(
+      // 12 March 2024, 12th March
+      {
+        pattern: new RegExp(`(\\d{1,2})${ORDINAL}\\s+(${monthNames})\\.?(?:,?\\s+(\\d{4}))?`, 'gu'),
+        toMatch: (match) => dateMatch(match, { day: Number(match[1]), month: months.get(match[2])!, year: match[3] }),
+      },
+      // March 12, 2024
+      {
+        pattern: new RegExp(`(${monthNames})\\.?\\s+(\\d{1,2})${ORDINAL}(?:,?\\s+(\\d{4}))?`, 'gu'),
+        toMatch: (match) => dateMatch(match, { day: Number(match[2]), month: months.get(match[1])!, year: match[3] }),
+      }
+    );
+  }
+
+  const numberMatch = (kind: LocaleEntityKind, match: RegExpMatchArray, symbol: string, value: string): EntityMatch | undefined => {
+    if (value.includes(',') && !isValidGrouping(value.split('.')[0])) {
+      return undefined;
+    }
+    const start = match.index ?? 0;
+    return {
+      kind,
+      start,
+      end: start + match[0].length,
+      render: (conventions, digits) => symbol + renderNumber(value, conventions, digits),
+    };
+  };
+
+  patterns.push(
+    // ₹1,500,000, Rs. 500, $20.50
+    {
+      pattern: new RegExp(`(${CURRENCY})(${NUMBER})`, 'g'),
+      toMatch: (match) => numberMatch('amount', match, match[1], match[2]),
+    },
+    {
+      pattern: new RegExp(NUMBER, 'g'),
+      toMatch: (match) => numberMatch('number', match, '', match[0]),
+    }
+  );
+
+  return patterns;
+};
+
+// Entities must stand alone: "A320", "4G" and "COVID-19" are left to the model
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{M}\p{N}]/u.test(char);
+
+const isAttached = (text: string, index: number, step: -1 | 1): boolean => {
+  return isWordChar(text[index]) || (text[index] === '-' && /\p{L}/u.test(text[index + step] || ''));
+};
+
+// Numbers, amounts and dates in text, in order and without overlaps
+const findLocaleEntities = (text: string, fromLang: string): EntityMatch[] => {
+  const ascii = toAsciiDigits(text);
+  const found: EntityMatch[] = [];
+
+  for (const { pattern, toMatch } of entityPatterns(fromLang)) {
+    for (const match of ascii.matchAll(pattern)) {
+      const entity = toMatch(match);
+      if (!entity) {
+        continue;
+      }
+      const standalone = !isAttached(ascii, entity.start - 1, -1) && !isAttached(ascii, entity.end, 1);
+      const overlaps = found.some(other => entity.start < other.end && other.start < entity.end);
+      if (standalone && !overlaps) {
+        found.push(entity);
+      }
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Replace numbers, amounts and dates with markers before generation so the
+ * model cannot garble them, and render each one in the target language's
+ * conventions (lakh/crore grouping, native digits, month names). Entities
+ * whose rendering would not change are left in the text.
+ */
+export const protectLocaleEntities = (
+  text: string,
+  fromLang: string,
+  toLang: string,
+  digits: DigitStyle
+): ProtectedText => {
+  const conventions = conventionsFor(toLang);
+  const entities: LocaleEntity[] = [];
+  let protectedText = '';
+  let last = 0;
+
+  for (const match of findLocaleEntities(text, fromLang)) {
+    const source = text.slice(match.start, match.end);
+    const rendered = match.render(conventions, digits);
+    if (rendered === source) {
+      continue;
+    }
+    const placeholder = `⟦N${entities.length + 1}⟧`;
+    entities.push({ kind: match.kind, source, rendered, placeholder });
+    protectedText += text.slice(last, match.start) + placeholder;
+    last = match.end;
+  }
+
+  return { text: protectedText + text.slice(last), entities };
+};
+
+// Model output may space out a marker or write its number in native digits
+const PLACEHOLDER = /⟦\s*N\s*(\p{Nd}+)\s*⟧/gu;
+
+// Put the rendered entities back in place of their markers; reports entities the model dropped
+export const restoreLocaleEntities = (
+  output: string,
+  entities: LocaleEntity[]
+): { text: string; missing: LocaleEntity[] } => {
+  if (entities.length === 0) {
+    return { text: output, missing: [] };
+  }
+
+  const restored = new Set<number>();
+  const text = output.replace(PLACEHOLDER, (marker, index: string) => {
+    const position = Number(toAsciiDigits(index)) - 1;
+    const entity = entities[position];
+    if (!entity) {
+      return marker;
+    }
+    restored.add(position);
+    return entity.rendered;
+  });
+
+  return { text, missing: entities.filter((_, position) => !restored.has(position)) };
+};
@@ -0,0 +1,163 @@
+/**
+ * Split Markdown or simple HTML into the text a person reads and the
+ * structure around it, so only the text is translated and the document
+ * can be rebuilt exactly. Like utils/xml.ts this works with targeted
+ * regular expressions; there is no DOM in React Native.
+ */
+
+export type MarkupFormat = 'plain' | 'markdown' | 'html';
+
+export interface MarkupNode {
+  text: string;
+  translate: boolean; // false for structure (markers, tags, code, whitespace) kept verbatim
+}
+
+// Inline markup left inside translatable text; the masking layer swaps each match for a sentinel
+export const INLINE_MARKUP_PATTERNS: { [format in MarkupFormat]: RegExp[] } = {
+  plain: [],
+  markdown: [
+    /!?\[(?=[^\]\n]*\]\()/g, // Link or image opener, only when a target follows
+    /\]\([^)\s]*(?:\s+"[^"]*")?\)/g, // ](url "title")
+    /<https?:\/\/[^>\s]+>/g, // <https://autolink>
+    /<\/?[a-zA-Z][^>]*>/g, // Inline HTML tags
+    /\*{1,3}|~~/g, // Bold, italic, strikethrough
+    /(?:^|\s)_{1,2}(?=\S)|_{1,2}(?=$|[\s.,;:!?)])/g, // _italic_ / __bold__, but not snake_case
+  ],
+  html: [
+    /<code\b[^>]*>[\s\S]*?<\/code>/gi, // Inline code, contents included
+    /<\/?[a-zA-Z][^>]*>/g, // Inline tags such as <a href="...">, <b>, <span>
+    /&(?:#\d+|#x[0-9a-fA-F]+|[a-zA-Z]+);/g, // Character references
+  ],
+};
+
+// Tags that start or end a block; text on either side is translated separately
+const HTML_BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'br', 'caption', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hr', 'html', 'li', 'main', 'nav',
+  'ol', 'p', 'section', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'title', 'tr', 'ul',
+]);
+
+// Comments, raw-text elements and tags, in document order
+const HTML_TOKEN = /(<!--[\s\S]*?-->|<(pre|script|style|textarea)\b[^>]*>[\s\S]*?<\/\2\s*>|<\/?[a-zA-Z][^>]*>)/gi;
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HORIZONTAL_RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+// Blockquote markers, then a heading, list or task marker
+const LINE_PREFIX = /^(\s*(?:>\s?)*\s*(?:#{1,6}\s+|(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)?)/;
+
+const push = (nodes: MarkupNode[], text: string, translate: boolean) => {
+  if (!text) {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last && !last.translate && !translate) {
+    last.text += text; // Merge neighbouring structure
+  } else {
+    nodes.push({ text, translate });
+  }
+};
+
+// Text with its surrounding whitespace kept as structure; text without letters is not worth translating
+const pushText = (nodes: MarkupNode[], text: string) => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  push(nodes, match[1], false);
+  push(nodes, match[2], /\p{L}/u.test(match[2]));
+  push(nodes, match[3], false);
+};
+
+const parseMarkdown = (text: string): MarkupNode[] => {
+  const nodes: MarkupNode[] = [];
+  let fence: string | null = null;
+
+  for (const line of text.match(/[^\n]*\n|[^\n]+$/g) || []) {
+    const body = line.replace(/\r?\n$/, '');
+    const ending = line.slice(body.length);
+    const fenceMatch = body.match(FENCE);
+
+    // Fenced code blocks are copied as they are, fences included
+    if (fence) {
+      push(nodes, line, false);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      push(nodes, line, false);
+      continue;
+    }
+
+    if (!body.trim() || HORIZONTAL_RULE.test(body) || (TABLE_DIVIDER.test(body) && body.includes('|'))) {
+      push(nodes, line, false);
+      continue;
+    }
+
+    const prefix = body.match(LINE_PREFIX)![1];
+    push(nodes, prefix, false);
+    const content = body.slice(prefix.length);
+
+    // Table rows: each cell is translated on its own
+    if (content.trimStart().startsWith('|')) {
+      content.split(/(\|)/).forEach(part => (part === '|' ? push(nodes, part, false) : pushText(nodes, part)));
+    } else {
+      pushText(nodes, content);
+    }
+    push(nodes, ending, false);
+  }
+
+  return nodes;
+};
+
+const parseHtml = (text: string): MarkupNode[] => {
+  const nodes: MarkupNode[] = [];
+  let buffer = ''; // Text and inline tags of the current block
+
+  const flush = () => {
+    pushText(nodes, buffer);
+    buffer = '';
+  };
+
+  text.split(HTML_TOKEN).forEach((part, index) => {
+    // split() with capture groups yields text, the token, then the raw-text tag name
+    const kind = index % 3;
+    if (kind === 2 || !part) {
+      return;
+    }
+    if (kind === 0) {
+      buffer += part;
+      return;
+    }
+
+    const name = part.match(/^<\/?([a-zA-Z][\w-]*)/)?.[1].toLowerCase();
+    const inline = name !== undefined && !HTML_BLOCK_TAGS.has(name) && !/^<(pre|script|style|textarea)\b/i.test(part);
+    if (inline) {
+      buffer += part;
+    } else {
+      flush();
+      push(nodes, part, false);
+    }
+  });
+  flush();
+
+  return nodes;
+};
+
+// Nodes of a document; plain text is a single translatable node
+export const parseMarkup = (text: string, format: MarkupFormat): MarkupNode[] => {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(text);
+    case 'html':
+      return parseHtml(text);
+    default:
+      return [{ text, translate: true }];
+  }
+};
+
+// Put translations back in place of the translatable nodes, in order
+export const rebuildMarkup = (nodes: MarkupNode[], translations: string[]): string => {
+  let next = 0;
+  return nodes.map(node => (node.translate ? translations[next++] ?? node.text : node.text)).join('');
+};
@@ -1,5 +1,6 @@
 import { Platform, AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearTranslationCache } from '../services/persistentTranslationCache';
 
 export interface MemoryInfo {
   totalMemory: number;
@@ -209,7 +210,7 @@ export class MemoryManager {
       this.cacheItems.delete(key);
     });
 
-    // Clear AsyncStorage cache
+    // Clear AsyncStorage cache (persisted translations are kept for the next session)
     this.clearAsyncStorageCache();
 
     console.log(`Aggressive cleanup: removed ${keysToRemove.length} items`);
@@ -232,7 +233,6 @@ export class MemoryManager {
     try {
       const keys = await AsyncStorage.getAllKeys();
       const cacheKeys = keys.filter(key => 
-        key.startsWith('translation_cache_') || 
         key.startsWith('audio_cache_') ||
         key.startsWith('temp_')
       );
@@ -344,8 +344,13 @@ export class MemoryManager {
     // Clear all cache items
     this.cacheItems.clear();
     
-    // Clear AsyncStorage cache
+    // Clear AsyncStorage cache; translations go through the shared clear so in-memory copies are dropped too
     await this.clearAsyncStorageCache();
+    try {
+      await clearTranslationCache();
+    } catch (error) {
+      console.error('Error clearing translation cache:', error);
+    }
     
     // Trigger garbage collection if available
     if (global.gc) {
@@ -0,0 +1,185 @@
+import { MarkupNode, rebuildMarkup } from './markup';
+
+/**
+ * Helpers for translating UI strings: ICU plural/select messages are split
+ * into the branch texts a person reads and the syntax around them, and
+ * placeholders, tags and nesting references are swapped for numbered
+ * tokens ({_1}, {_2}, ...) that must all come back in the translation.
+ */
+
+export interface MessageNode extends MarkupNode {
+  pound: boolean; // Inside a plural branch, where "#" stands for the number
+}
+
+export interface TokenizedText {
+  text: string; // With each token replaced by {_1}, {_2}, ...
+  tokens: string[]; // Originals, in token order
+}
+
+// Message ready for translation: its nodes and the tokenized text of each translatable node
+export interface PreparedMessage {
+  nodes: MessageNode[];
+  units: TokenizedText[];
+}
+
+const COMPLEX_ARGUMENT = /^\s*[\w.-]+\s*,\s*(plural|select|selectordinal)\s*,\s*/;
+const BRANCH_SELECTOR = /^\s*(?:offset:\s*\d+\s*)?(?:=\d+|[\w-]+)\s*/;
+
+// {{name}}, {name}, {count, number}, $t(key), %s, %1$d, %(name)s, <b>, <1></1>
+const MESSAGE_TOKEN = String.raw`\{\{[^{}]*\}\}|\{[^{}]*\}|\$t\([^)]*\)|%(?:\d+\$)?[-+0]*\d*(?:\.\d+)?(?:l|ll|h)?[sdifuxXeEgGc@]|%\(\w+\)[sdif]|<[^<>\s][^<>]*>`;
+const TOKEN_REFERENCE = /\{_(\d+)\}/g;
+
+// A quote starts literal text when it is followed by ICU syntax ('{', '#', ...); '' is an apostrophe
+const quotedEnd = (text: string, index: number): number => {
+  if (text[index + 1] === "'") {
+    return index + 2;
+  }
+  if (!/[{}#|]/.test(text[index + 1] || '')) {
+    return index + 1;
+  }
+  const close = text.indexOf("'", index + 1);
+  return close < 0 ? text.length : close + 1;
+};
+
+// Index just past the brace that closes the one at start, or -1 when it is never closed
+const closingBrace = (text: string, start: number): number => {
+  let depth = 0;
+  let index = start;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === "'") {
+      index = quotedEnd(text, index);
+      continue;
+    }
+    if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return index + 1;
+    }
+    index++;
+  }
+  return -1;
+};
+
+const push = (nodes: MessageNode[], text: string, translate: boolean, pound: boolean) => {
+  if (!text) {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last && !last.translate && !translate) {
+    last.text += text;
+  } else {
+    nodes.push({ text, translate, pound });
+  }
+};
+
+// Text with its surrounding whitespace kept as syntax; text without letters is copied as it is
+const pushText = (nodes: MessageNode[], text: string, pound: boolean) => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  push(nodes, match[1], false, pound);
+  push(nodes, match[2], /\p{L}/u.test(match[2].replace(new RegExp(MESSAGE_TOKEN, 'g'), '')), pound);
+  push(nodes, match[3], false, pound);
+};
+
+const parseBranches = (body: string, nodes: MessageNode[], pound: boolean) => {
+  let rest = body;
+  while (rest.trim()) {
+    const selector = rest.match(BRANCH_SELECTOR)?.[0];
+    const end = selector && rest[selector.length] === '{' ? closingBrace(rest, selector.length) : -1;
+    if (!selector || end < 0) {
+      push(nodes, rest, false, pound); // Malformed: copied as it is
+      return;
+    }
+    push(nodes, `${selector}{`, false, pound);
+    parseInto(rest.slice(selector.length + 1, end - 1), nodes, pound);
+    push(nodes, '}', false, pound);
+    rest = rest.slice(end);
+  }
+  push(nodes, rest, false, pound);
+};
+
+const parseInto = (message: string, nodes: MessageNode[], pound: boolean) => {
+  let text = '';
+  let index = 0;
+
+  while (index < message.length) {
+    const char = message[index];
+    if (char === "'") {
+      const end = quotedEnd(message, index);
+      text += message.slice(index, end);
+      index = end;
+      continue;
+    }
+
+    const end = char === '{' ? closingBrace(message, index) : -1;
+    const complex = end > 0 ? message.slice(index + 1, end - 1).match(COMPLEX_ARGUMENT) : null;
+    if (!complex) {
+      // Simple arguments ({name}, {n, number}) stay in the text as placeholders
+      text += end > 0 ? message.slice(index, end) : char;
+      index = end > 0 ? end : index + 1;
+      continue;
+    }
+
+    pushText(nodes, text, pound);
+    text = '';
+    push(nodes, `{${complex[0]}`, false, pound);
+    parseBranches(message.slice(index + 1 + complex[0].length, end - 1), nodes, pound || complex[1] !== 'select');
+    push(nodes, '}', false, pound);
+    index = end;
+  }
+
+  pushText(nodes, text, pound);
+};
+
+// Split an ICU message into syntax and the texts to translate; plain strings are a single text node
+export const parseMessage = (message: string): MessageNode[] => {
+  const nodes: MessageNode[] = [];
+  parseInto(message, nodes, false);
+  return nodes;
+};
+
+// Replace placeholders, tags and (with extra patterns) format-specific syntax with numbered tokens
+export const tokenizeText = (text: string, extraPatterns: string[] = []): TokenizedText => {
+  const tokens: string[] = [];
+  const pattern = new RegExp([...extraPatterns, MESSAGE_TOKEN].join('|'), 'g');
+  const tokenized = text.replace(pattern, token => {
+    tokens.push(token);
+    return `{_${tokens.length}}`;
+  });
+  return { text: tokenized, tokens };
+};
+
+// Put the tokens back; undefined when the translation lost or repeated any of them
+export const restoreTokens = (text: string, tokens: string[]): string | undefined => {
+  const counts = tokens.map(() => 0);
+  const restored = text.replace(TOKEN_REFERENCE, (reference, number: string) => {
+    const index = Number(number) - 1;
+    if (index >= tokens.length) {
+      return reference;
+    }
+    counts[index]++;
+    return tokens[index];
+  });
+  return counts.every(count => count === 1) ? restored : undefined;
+};
+
+// Nodes of a message and the tokenized text of each translatable node ("#" is a token in plural branches)
+export const prepareMessage = (message: string): PreparedMessage => {
+  const nodes = parseMessage(message);
+  const units = nodes
+    .filter(node => node.translate)
+    .map(node => tokenizeText(node.text, node.pound ? ['#'] : []));
+  return { nodes, units };
+};
+
+// Rebuild a message from translated units; undefined when any unit is missing or lost a token
+export const completeMessage = (prepared: PreparedMessage, translations: Array<string | undefined>): string | undefined => {
+  const texts = prepared.units.map((unit, index) => {
+    const translation = translations[index];
+    return translation === undefined ? undefined : restoreTokens(translation, unit.tokens);
+  });
+  if (texts.some(text => text === undefined)) {
+    return undefined;
+  }
+  return rebuildMarkup(prepared.nodes, texts as string[]);
+};
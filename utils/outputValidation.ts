@@ -0,0 +1,199 @@
+import { QUALITY_CONFIG, VALIDATION_CONFIG } from '../config/gemmaConfig';
+import { getLanguage } from '../config/languageRegistry';
+import { scriptConformance } from './qualityEstimation';
+import { identifyLanguageOffline } from './languageIdentifier';
+
+export type ValidationCode =
+  | 'empty'
+  | 'prompt_leak'
+  | 'quoted'
+  | 'wrong_script'
+  | 'wrong_language'
+  | 'length_ratio'
+  | 'missing_number'
+  | 'missing_placeholder';
+
+export interface ValidationWarning {
+  code: ValidationCode;
+  severity: 'error' | 'warning'; // Errors trigger a retry; warnings were repaired or are only suspicious
+  message: string;
+}
+
+export interface ValidationInput {
+  source: string;
+  output: string; // Raw model output
+  fromLang: string;
+  toLang: string;
+  keepTerms?: string[]; // Terms allowed to stay in another script (e.g. English words in code-mixed input)
+  missingNumbers?: string[]; // Protected numbers, dates and amounts whose marker the model dropped
+  missingSpans?: string[]; // Protected URLs, emails, placeholders, code etc. whose sentinel the model dropped
+}
+
+export interface ValidationResult {
+  text: string; // Output with leaked labels, wrapping quotes and brackets removed
+  warnings: ValidationWarning[];
+  valid: boolean; // No error-severity warnings
+}
+
+// Instruction sentences from the translation prompts that must never reach the user
+const INSTRUCTION_PATTERNS = [
+  /translate the following/i,
+  /provide only the translation/i,
+  /without any additional text/i,
+];
+
+const QUOTE_PAIRS: Array<[string, string]> = [['"', '"'], ['“', '”'], ["'", "'"], ['«', '»'], ['「', '」']];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Labels the model may echo in front of its answer ("Translation:", "Hindi:", "Hindi translation:")
+const labelPattern = (toLang: string): RegExp => {
+  const names = ['Translation', 'Target', getLanguage(toLang)?.promptName, getLanguage(toLang)?.name]
+    .filter((name): name is string => !!name)
+    .map(escapeRegExp);
+  return new RegExp(`^(?:${names.join('|')})(?: translation)?\\s*:\\s*`, 'i');
+};
+
+const isWrapped = (text: string): [string, string] | undefined => {
+  return QUOTE_PAIRS.find(([open, close]) => text.length > 1 && text.startsWith(open) && text.endsWith(close));
+};
+
+/**
+ * Strip what the model adds around a translation: brackets, echoed labels,
+ * quotes the source did not have, and the prompt itself when the answer
+ * follows it. Reports what was removed.
+ */
+export const cleanTranslationOutput = (
+  output: string,
+  source: string,
+  toLang: string
+): { text: string; leaked: boolean; quoted: boolean } => {
+  let text = output.replace(/^\[|\]$/g, '').trim();
+  let leaked = false;
+  let quoted = false;
+
+  // Prompt echoed before the answer: keep what follows the last target label
+  if (INSTRUCTION_PATTERNS.some(pattern => pattern.test(text))) {
+    leaked = true;
+    const lines = text.split('\n');
+    const label = labelPattern(toLang);
+    const answerLine = lines.map(line => line.trim()).reduce((found, line, index) => (label.test(line) ? index : found), -1);
+    text = answerLine >= 0 ? lines.slice(answerLine).join('\n').trim() : text;
+  }
+
+  const label = labelPattern(toLang);
+  while (label.test(text)) {
+    leaked = true;
+    text = text.replace(label, '').trim();
+  }
+
+  const wrapped = isWrapped(text);
+  if (wrapped && !isWrapped(source.trim())) {
+    quoted = true;
+    text = text.slice(wrapped[0].length, text.length - wrapped[1].length).trim();
+  }
+
+  return { text, leaked, quoted };
+};
+
+// Clean a raw generation and check it is a plausible translation into the target language
+export const validateTranslationOutput = (input: ValidationInput): ValidationResult => {
+  const warnings: ValidationWarning[] = [];
+  const cleaned = cleanTranslationOutput(input.output, input.source, input.toLang);
+  const text = cleaned.text;
+
+  if (!text) {
+    warnings.push({ code: 'empty', severity: 'error', message: 'The model returned no translation' });
+    return { text, warnings, valid: false };
+  }
+
+  if (INSTRUCTION_PATTERNS.some(pattern => pattern.test(text))) {
+    warnings.push({ code: 'prompt_leak', severity: 'error', message: 'The output repeats the translation instructions' });
+  } else if (cleaned.leaked) {
+    warnings.push({ code: 'prompt_leak', severity: 'warning', message: 'Removed prompt labels from the output' });
+  }
+  if (cleaned.quoted) {
+    warnings.push({ code: 'quoted', severity: 'warning', message: 'Removed quotes around the output' });
+  }
+
+  // Kept terms may legitimately be in another script
+  const checked = (input.keepTerms || []).reduce((remaining, term) => remaining.split(term).join(' '), text);
+
+  const conformance = scriptConformance(checked, input.toLang);
+  if (conformance !== undefined && conformance < QUALITY_CONFIG.minScriptRatio) {
+    const scripts = getLanguage(input.toLang)!.scripts.join('/').replace(/_/g, ' ');
+    warnings.push({
+      code: 'wrong_script',
+      severity: 'error',
+      message: `Only ${Math.round(conformance * 100)}% of letters are in the ${scripts} script`,
+    });
+  }
+
+  const letters = checked.match(/\p{L}/gu) || [];
+  const detected = letters.length >= VALIDATION_CONFIG.minLanguageLetters ? identifyLanguageOffline(checked)[0] : undefined;
+  if (
+    detected &&
+    detected.code !== input.toLang &&
+    detected.probability >= VALIDATION_CONFIG.wrongLanguageConfidence
+  ) {
+    // Left in the source language is a failed translation; a sibling language may be a misidentification
+    const untranslated = detected.code === input.fromLang;
+    const name = getLanguage(detected.code)?.name || detected.code;
+    warnings.push({
+      code: 'wrong_language',
+      severity: untranslated ? 'error' : 'warning',
+      message: untranslated ? `The output is still in ${name}` : `The output looks like ${name}`,
+    });
+  }
+
+  if (input.missingNumbers && input.missingNumbers.length > 0) {
+    warnings.push({
+      code: 'missing_number',
+      severity: 'error',
+      message: `The output leaves out ${input.missingNumbers.join(', ')}`,
+    });
+  }
+
+  if (input.missingSpans && input.missingSpans.length > 0) {
+    warnings.push({
+      code: 'missing_placeholder',
+      severity: 'error',
+      message: `The output leaves out ${input.missingSpans.join(', ')}`,
+    });
+  }
+
+  const sourceLength = Array.from(input.source.trim()).length;
+  if (sourceLength >= VALIDATION_CONFIG.minRatioSourceLength) {
+    const ratio = Array.from(text).length / sourceLength;
+    if (ratio < QUALITY_CONFIG.minLengthRatio || ratio > QUALITY_CONFIG.maxLengthRatio) {
+      warnings.push({
+        code: 'length_ratio',
+        severity: 'error',
+        message: `The output is ${ratio.toFixed(2)}x the length of the source`,
+      });
+    }
+  }
+
+  return { text, warnings, valid: !warnings.some(warning => warning.severity === 'error') };
+};
+
+// Error-severity warnings in a list; fewer is better when choosing between attempts
+export const countValidationErrors = (warnings: ValidationWarning[] = []): number => {
+  return warnings.filter(warning => warning.severity === 'error').length;
+};
+
+// Whether the output dropped the marker of a protected span, number, date or amount
+export const losesProtectedText = (warnings: ValidationWarning[] = []): boolean => {
+  return warnings.some(warning => warning.code === 'missing_placeholder' || warning.code === 'missing_number');
+};
+
+// Combine per-segment warnings, dropping repeats
+export const mergeValidationWarnings = (lists: Array<ValidationWarning[] | undefined>): ValidationWarning[] => {
+  const merged: ValidationWarning[] = [];
+  for (const warning of lists.flatMap(list => list || [])) {
+    if (!merged.some(existing => existing.code === warning.code && existing.message === warning.message)) {
+      merged.push(warning);
+    }
+  }
+  return merged;
+};
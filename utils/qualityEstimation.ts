@@ -0,0 +1,158 @@
+import { QUALITY_CONFIG } from '../config/gemmaConfig';
+import { getLanguage } from '../config/languageRegistry';
+
+export interface QualityAssessment {
+  confidence: number; // 0-1, higher is better
+  reasons: string[]; // Human-readable problems found, empty when none
+  similarity?: number; // chrF between the source and its back-translation
+}
+
+export interface QualityInput {
+  source: string;
+  translation: string;
+  fromLang: string;
+  toLang: string;
+  backTranslation?: string; // Output translated back into the source language
+}
+
+// Character n-gram counts with whitespace removed, as chrF defines them
+const characterNgrams = (text: string, order: number): Map<string, number> => {
+  const chars = Array.from(text.toLowerCase().replace(/\s+/g, ''));
+  const counts = new Map<string, number>();
+  for (let i = 0; i + order <= chars.length; i++) {
+    const gram = chars.slice(i, i + order).join('');
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+// chrF score in [0, 1]: F-beta over character n-gram precision and recall averaged across orders
+export const chrF = (hypothesis: string, reference: string, maxOrder: number = 6, beta: number = 2): number => {
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+
+  for (let order = 1; order <= maxOrder; order++) {
+    const hypothesisGrams = characterNgrams(hypothesis, order);
+    const referenceGrams = characterNgrams(reference, order);
+    let hypothesisTotal = 0;
+    let referenceTotal = 0;
+    let overlap = 0;
+
+    hypothesisGrams.forEach(count => { hypothesisTotal += count; });
+    referenceGrams.forEach((count, gram) => {
+      referenceTotal += count;
+      overlap += Math.min(count, hypothesisGrams.get(gram) || 0);
+    });
+
+    // Texts shorter than the order contribute nothing either way
+    if (hypothesisTotal === 0 || referenceTotal === 0) {
+      continue;
+    }
+    precisionSum += overlap / hypothesisTotal;
+    recallSum += overlap / referenceTotal;
+    orders++;
+  }
+
+  if (orders === 0) {
+    return hypothesis.trim() === reference.trim() ? 1 : 0;
+  }
+
+  const precision = precisionSum / orders;
+  const recall = recallSum / orders;
+  if (precision === 0 && recall === 0) {
+    return 0;
+  }
+  const betaSquared = beta * beta;
+  return ((1 + betaSquared) * precision * recall) / (betaSquared * precision + recall);
+};
+
+// Share of letters written in one of the language's scripts (undefined when unknown or no letters)
+export const scriptConformance = (text: string, languageCode: string): number | undefined => {
+  const scripts = getLanguage(languageCode)?.scripts;
+  const letters = text.match(/\p{L}/gu);
+  if (!scripts || !letters) {
+    return undefined;
+  }
+
+  const pattern = new RegExp(scripts.map(script => `\\p{Script=${script}}`).join('|'), 'u');
+  return letters.filter(letter => pattern.test(letter)).length / letters.length;
+};
+
+// Combine the back-translation similarity with cheap checks on the output itself
+export const assessTranslation = (input: QualityInput): QualityAssessment => {
+  const reasons: string[] = [];
+  const translation = input.translation.trim();
+  if (!translation) {
+    return { confidence: 0, reasons: ['Translation is empty'] };
+  }
+
+  let confidence = QUALITY_CONFIG.unverifiedConfidence;
+  let similarity: number | undefined;
+
+  if (input.backTranslation !== undefined) {
+    similarity = chrF(input.backTranslation, input.source);
+    confidence = Math.min(1, similarity / QUALITY_CONFIG.goodSimilarity);
+    if (similarity < QUALITY_CONFIG.lowSimilarity) {
+      reasons.push(`Back-translation differs from the source (chrF ${similarity.toFixed(2)})`);
+    }
+  }
+
+  const lengthRatio = Array.from(translation).length / Math.max(1, Array.from(input.source.trim()).length);
+  if (lengthRatio < QUALITY_CONFIG.minLengthRatio) {
+    confidence *= 0.6;
+    reasons.push(`Translation is much shorter than the source (${lengthRatio.toFixed(2)}x)`);
+  } else if (lengthRatio > QUALITY_CONFIG.maxLengthRatio) {
+    confidence *= 0.6;
+    reasons.push(`Translation is much longer than the source (${lengthRatio.toFixed(2)}x)`);
+  }
+
+  const conformance = scriptConformance(translation, input.toLang);
+  if (conformance !== undefined && conformance < QUALITY_CONFIG.minScriptRatio) {
+    confidence *= conformance;
+    const scripts = getLanguage(input.toLang)!.scripts.join('/').replace(/_/g, ' ');
+    reasons.push(`Only ${Math.round(conformance * 100)}% of letters are in the ${scripts} script`);
+  }
+
+  if (input.fromLang !== input.toLang && translation === input.source.trim()) {
+    confidence *= 0.3;
+    reasons.push('Translation is identical to the source');
+  }
+
+  return { confidence: Math.max(0, Math.min(1, confidence)), reasons, similarity };
+};
+
+export interface RankedCandidate {
+  text: string;
+  score: number; // 0-1, higher is better
+}
+
+// Rank distinct candidates by their own quality checks and their agreement with the others
+export const rankCandidates = (
+  texts: string[],
+  input: Omit<QualityInput, 'translation' | 'backTranslation'>
+): RankedCandidate[] => {
+  const seen = new Set<string>();
+  const distinct = texts.filter(text => {
+    const key = text.trim().replace(/\s+/g, ' ');
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  return distinct
+    .map((text, index) => {
+      const quality = assessTranslation({ ...input, translation: text }).confidence;
+      if (distinct.length === 1) {
+        return { text, score: quality };
+      }
+
+      // Minimum Bayes risk: a candidate the others agree with is less likely to be an outlier
+      const others = distinct.filter((_, otherIndex) => otherIndex !== index);
+      const consensus = others.reduce((sum, other) => sum + chrF(text, other), 0) / others.length;
+      return { text, score: (quality + consensus) / 2 };
+    })
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,390 @@
+import { getLanguage } from '../config/languageRegistry';
+import { decodeXmlEntities } from './xml';
+import { restoreTokens, tokenizeText } from './messageFormat';
+
+/**
+ * Localization resource files: i18next-style nested JSON, Android
+ * strings.xml and gettext .po/.pot. Each file is read into a list of
+ * strings to translate and written back with only those values replaced,
+ * so keys, comments, ordering and untranslatable entries stay as they were.
+ */
+
+export type ResourceFormat = 'json' | 'android' | 'po';
+
+export interface ResourceEntry {
+  key: string; // JSON path ("menu.file.open"), Android name ("items[one]"), or PO msgid ("%d file[1]")
+  text: string; // Value to translate; Android markup and escapes are tokens ({_1}, ...)
+  tokens: string[]; // Format-level tokens in text, restored when the file is written
+}
+
+interface JsonTarget {
+  path: Array<string | number>;
+}
+
+interface AndroidTarget {
+  start: number; // Offsets of the raw value in the file
+  end: number;
+  cdata: boolean;
+  element: number; // Offset of the top-level element, where the machine-translation comment goes
+}
+
+interface PoTarget {
+  block: number; // Index in PoBlock list
+  form: number; // msgstr index (0 for singular entries)
+}
+
+interface PoBlock {
+  head: string[]; // Comment, msgctxt, msgid and msgid_plural lines, as written
+  msgid: string;
+  msgidPlural?: string;
+  msgstr: string[]; // Decoded msgstr values ([0] only for singular entries)
+  plural: boolean;
+  header: boolean; // The msgid "" metadata entry
+  raw?: string; // Blocks without an entry (leading comments, obsolete #~ entries)
+}
+
+export type ResourceFile =
+  | { format: 'json'; fileName: string; entries: ResourceEntry[]; targets: JsonTarget[]; data: unknown; indent: string }
+  | { format: 'android'; fileName: string; entries: ResourceEntry[]; targets: AndroidTarget[]; content: string }
+  | { format: 'po'; fileName: string; entries: ResourceEntry[]; targets: PoTarget[]; blocks: PoBlock[] };
+
+const MACHINE_TRANSLATED = 'Machine-translated';
+
+// Format from the file extension, falling back to the content
+export const detectResourceFormat = (fileName: string, content: string): ResourceFormat => {
+  if (/\.json$/i.test(fileName)) {
+    return 'json';
+  }
+  if (/\.pot?$/i.test(fileName)) {
+    return 'po';
+  }
+  if (/\.xml$/i.test(fileName)) {
+    return 'android';
+  }
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) {
+    return 'json';
+  }
+  if (trimmed.startsWith('<')) {
+    return 'android';
+  }
+  if (/^msgid\s/m.test(content)) {
+    return 'po';
+  }
+  throw new Error(`Unsupported localization file: ${fileName}`);
+};
+
+// --- i18next JSON ---
+
+const parseJson = (content: string, fileName: string): ResourceFile => {
+  const data = JSON.parse(content);
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Localization JSON must be an object of keys');
+  }
+
+  const entries: ResourceEntry[] = [];
+  const targets: JsonTarget[] = [];
+  const walk = (value: unknown, path: Array<string | number>) => {
+    if (typeof value === 'string') {
+      entries.push({ key: path.join('.'), text: value, tokens: [] });
+      targets.push({ path });
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, child]) => walk(child, [...path, Array.isArray(value) ? Number(key) : key]));
+    }
+  };
+  walk(data, []);
+
+  const indent = content.match(/\n([ \t]+)"/)?.[1] || '  ';
+  return { format: 'json', fileName, entries, targets, data, indent };
+};
+
+const writeJson = (file: Extract<ResourceFile, { format: 'json' }>, values: Array<string | undefined>): string => {
+  const data = JSON.parse(JSON.stringify(file.data));
+  file.targets.forEach((target, index) => {
+    const value = values[index];
+    if (value === undefined) {
+      return;
+    }
+    const parent = target.path.slice(0, -1).reduce((node, key) => node[key], data);
+    parent[target.path[target.path.length - 1]] = value;
+  });
+  return `${JSON.stringify(data, null, file.indent)}\n`;
+};
+
+// --- Android strings.xml ---
+
+// Markup kept verbatim: <xliff:g> with its content, other tags, and escapes such as \n and \u2026
+const ANDROID_TOKENS = [
+  String.raw`<xliff:g\b[^>]*>[\s\S]*?<\/xliff:g>`,
+  String.raw`<[^<>]+>`,
+  String.raw`\\u[0-9a-fA-F]{4}|\\[nt]`,
+];
+
+const ANDROID_ELEMENT = /<!--[\s\S]*?-->|<(string|plurals|string-array)\b([^>]*)>([\s\S]*?)<\/\1\s*>/g;
+const ANDROID_ITEM = /<item\b([^>]*)>([\s\S]*?)<\/item\s*>/g;
+
+const unescapeAndroid = (text: string): string => {
+  const unquoted = /^"[\s\S]*"$/.test(text) ? text.slice(1, -1) : text;
+  return decodeXmlEntities(unquoted).replace(/\\(['"@?\\])/g, '$1');
+};
+
+const escapeAndroid = (text: string, cdata: boolean): string => {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/(['"])/g, '\\$1').replace(/^([@?])/, '\\$1');
+  return cdata ? escaped : escaped.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const attribute = (attributes: string, name: string): string | undefined => {
+  return attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`))?.[1];
+};
+
+const parseAndroid = (content: string, fileName: string): ResourceFile => {
+  const entries: ResourceEntry[] = [];
+  const targets: AndroidTarget[] = [];
+
+  const addValue = (key: string, raw: string, start: number, element: number) => {
+    const cdata = raw.match(/^(\s*<!\[CDATA\[)([\s\S]*?)\]\]>\s*$/);
+    const value = cdata ? cdata[2] : raw;
+    const offset = start + (cdata ? cdata[1].length : 0);
+    const tokenized = tokenizeText(value, ANDROID_TOKENS);
+    const text = cdata ? tokenized.text : unescapeAndroid(tokenized.text);
+    entries.push({ key, text, tokens: tokenized.tokens });
+    targets.push({ start: offset, end: offset + value.length, cdata: !!cdata, element });
+  };
+
+  for (const match of content.matchAll(ANDROID_ELEMENT)) {
+    const [element, tag, attributes, body] = match;
+    if (!tag || attribute(attributes, 'translatable') === 'false') {
+      continue; // Comment or a string marked translatable="false"
+    }
+    const name = attribute(attributes, 'name') || '';
+    const elementStart = match.index ?? 0;
+    const bodyStart = elementStart + element.indexOf('>') + 1;
+
+    if (tag === 'string') {
+      addValue(name, body, bodyStart, elementStart);
+      continue;
+    }
+    let position = 0;
+    for (const item of body.matchAll(ANDROID_ITEM)) {
+      const itemStart = bodyStart + (item.index ?? 0) + item[0].indexOf('>') + 1;
+      const label = tag === 'plurals' ? attribute(item[1], 'quantity') : String(position);
+      addValue(`${name}[${label}]`, item[2], itemStart, elementStart);
+      position++;
+    }
+  }
+
+  return { format: 'android', fileName, entries, targets, content };
+};
+
+const writeAndroid = (file: Extract<ResourceFile, { format: 'android' }>, values: Array<string | undefined>): string => {
+  let content = file.content;
+  const marked = new Set<number>();
+
+  // Values, then the comment before their element, working from the end so earlier offsets stay valid
+  const elements = Array.from(new Set(file.targets.map(target => target.element)));
+  const edits = [
+    ...file.targets.map((target, index) => ({ position: target.start, index })),
+    ...elements.map(element => ({ position: element, index: -1 })),
+  ].sort((a, b) => b.position - a.position);
+
+  for (const { position, index } of edits) {
+    if (index < 0) {
+      if (marked.has(position)) {
+        const before = content.slice(content.lastIndexOf('\n', position - 1) + 1, position);
+        const indent = /^[ \t]*$/.test(before) ? before : '';
+        content = `${content.slice(0, position)}<!-- ${MACHINE_TRANSLATED} -->\n${indent}${content.slice(position)}`;
+      }
+      continue;
+    }
+    const target = file.targets[index];
+    const value = values[index];
+    const restored = value === undefined ? undefined : restoreTokens(escapeAndroid(value, target.cdata), file.entries[index].tokens);
+    if (restored !== undefined) {
+      content = content.slice(0, target.start) + restored + content.slice(target.end);
+      marked.add(target.element);
+    }
+  }
+  return content;
+};
+
+// --- gettext PO ---
+
+const decodePo = (text: string): string => {
+  return text.replace(/\\(.)/g, (_, char: string) => ({ n: '\n', t: '\t', r: '\r' } as { [key: string]: string })[char] ?? char);
+};
+
+const encodePo = (text: string): string => {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+};
+
+// keyword "value", split after each newline when the value has several lines
+const poField = (keyword: string, value: string): string => {
+  const lines = value.match(/[^\n]*\n|[^\n]+$/g) || [];
+  if (lines.length <= 1) {
+    return `${keyword} "${encodePo(value)}"`;
+  }
+  return [`${keyword} ""`, ...lines.map(line => `"${encodePo(line)}"`)].join('\n');
+};
+
+const parsePoBlock = (block: string): PoBlock => {
+  const lines = block.split('\n');
+  const msgstrAt = lines.findIndex(line => line.startsWith('msgstr'));
+  if (msgstrAt < 0) {
+    return { head: [], msgid: '', msgstr: [], plural: false, header: false, raw: block };
+  }
+
+  // Gather each keyword's value across its continuation lines
+  const fields = new Map<string, string>();
+  let keyword = '';
+  for (const line of lines) {
+    const field = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"\s*$/);
+    const continuation = line.match(/^\s*"(.*)"\s*$/);
+    if (field) {
+      keyword = field[1];
+      fields.set(keyword, decodePo(field[2]));
+    } else if (continuation && keyword) {
+      fields.set(keyword, fields.get(keyword) + decodePo(continuation[1]));
+    } else if (!line.startsWith('#')) {
+      keyword = '';
+    }
+  }
+
+  const plural = fields.has('msgid_plural');
+  const forms = Array.from(fields.keys()).filter(key => key.startsWith('msgstr['));
+  return {
+    head: lines.slice(0, msgstrAt),
+    msgid: fields.get('msgid') ?? '',
+    msgidPlural: fields.get('msgid_plural'),
+    msgstr: plural ? forms.map(key => fields.get(key)!) : [fields.get('msgstr') ?? ''],
+    plural,
+    header: fields.get('msgid') === '' && !fields.has('msgctxt'),
+  };
+};
+
+const parsePo = (content: string, fileName: string): ResourceFile => {
+  const blocks = content.trim().split(/\n[ \t]*\n/).map(parsePoBlock);
+  const entries: ResourceEntry[] = [];
+  const targets: PoTarget[] = [];
+
+  blocks.forEach((block, index) => {
+    if (block.raw !== undefined || block.header) {
+      return;
+    }
+    // msgstr[0] translates the singular, every other form the plural
+    block.msgstr.forEach((_, form) => {
+      const text = form === 0 ? block.msgid : block.msgidPlural ?? block.msgid;
+      entries.push({ key: block.plural ? `${block.msgid}[${form}]` : block.msgid, text, tokens: [] });
+      targets.push({ block: index, form });
+    });
+  });
+
+  return { format: 'po', fileName, entries, targets, blocks };
+};
+
+// "#, fuzzy" added to the flags line, or as a new flags line before the msgid
+const markFuzzy = (head: string[]): string[] => {
+  const flags = head.findIndex(line => line.startsWith('#,'));
+  if (flags >= 0) {
+    return /\bfuzzy\b/.test(head[flags]) ? head : head.map((line, index) => (index === flags ? `${line}, fuzzy` : line));
+  }
+  const before = head.findIndex(line => line.startsWith('#|') || line.startsWith('msg'));
+  return [...head.slice(0, before), '#, fuzzy', ...head.slice(before)];
+};
+
+// Replace a "Name: value" line of the header entry, or add it at the end
+const setPoHeader = (header: string, name: string, value: string): string => {
+  const line = new RegExp(`^${name}:.*$`, 'm');
+  return line.test(header) ? header.replace(line, `${name}: ${value}`) : `${header}${name}: ${value}\n`;
+};
+
+/**
+ * Plural entries are written with the target language's number of forms:
+ * msgstr[0] gets the translated singular and every later form the
+ * translated plural. An entry with an untranslated form is left empty,
+ * which gettext treats as untranslated, rather than mixing languages.
+ */
+const writePo = (file: Extract<ResourceFile, { format: 'po' }>, values: Array<string | undefined>, toLang: string): string => {
+  const pluralForms = getLanguage(toLang)?.pluralForms;
+  const formCount = Number(pluralForms?.match(/nplurals\s*=\s*(\d+)/)?.[1]) || undefined;
+  const blocks = file.blocks.map(block => ({ ...block, msgstr: [...block.msgstr], translated: false }));
+  const missing = new Set<number>();
+  file.targets.forEach((target, index) => {
+    const value = values[index];
+    if (value !== undefined) {
+      blocks[target.block].msgstr[target.form] = value;
+      blocks[target.block].translated = true;
+    } else {
+      missing.add(target.block);
+    }
+  });
+
+  blocks.forEach((block, index) => {
+    if (!block.plural || !formCount) {
+      return;
+    }
+    if (missing.has(index)) {
+      block.msgstr = Array.from({ length: formCount }, () => '');
+      block.translated = false;
+    } else {
+      const [singular, plural = singular] = block.msgstr;
+      block.msgstr = Array.from({ length: formCount }, (_, form) => (form === 0 ? singular : plural));
+    }
+  });
+
+  return `${blocks.map(block => {
+    if (block.raw !== undefined) {
+      return block.raw;
+    }
+    if (block.header) {
+      const header = setPoHeader(block.msgstr[0], 'Language', toLang);
+      block.msgstr[0] = pluralForms ? setPoHeader(header, 'Plural-Forms', pluralForms) : header;
+    }
+    const head = block.translated ? markFuzzy(block.head) : block.head;
+    const msgstr = block.plural
+      ? block.msgstr.map((value, form) => poField(`msgstr[${form}]`, value))
+      : [poField('msgstr', block.msgstr[0])];
+    return [...head, ...msgstr].join('\n');
+  }).join('\n\n')}\n`;
+};
+
+// --- Public API ---
+
+// Read a resource file into the strings it contains
+export const parseResourceFile = (content: string, fileName: string): ResourceFile => {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  switch (detectResourceFormat(fileName, text)) {
+    case 'json':
+      return parseJson(text, fileName);
+    case 'android':
+      return parseAndroid(text, fileName);
+    default:
+      return parsePo(text, fileName);
+  }
+};
+
+/**
+ * Write the file with translated values in place of the originals, in
+ * entry order. Undefined values (and Android values whose markup did not
+ * survive) keep the source text; translated entries are marked as machine
+ * translation: "#, fuzzy" in PO, a comment in Android XML. JSON has no
+ * comments, so callers report those keys instead.
+ */
+export const writeResourceFile = (file: ResourceFile, values: Array<string | undefined>, toLang: string): string => {
+  switch (file.format) {
+    case 'json':
+      return writeJson(file, values);
+    case 'android':
+      return writeAndroid(file, values);
+    default:
+      return writePo(file, values, toLang);
+  }
+};
+
+// Where a translation goes, following each ecosystem's layout: hi/common.json, values-hi/strings.xml, hi/app.po
+export const resourceOutputPath = (file: ResourceFile, toLang: string): string => {
+  if (file.format === 'android') {
+    // Three-letter codes need the BCP 47 qualifier form
+    return `values-${toLang.length === 2 ? toLang : `b+${toLang}`}/${file.fileName}`;
+  }
+  return `${toLang}/${file.fileName.replace(/\.pot$/i, '.po')}`;
+};
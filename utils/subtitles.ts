@@ -0,0 +1,232 @@
+/**
+ * SRT and WebVTT helpers: parse cues, join them into sentences for
+ * translation, split translations back across the cues and re-wrap lines.
+ * Cue numbers, timings and VTT header, NOTE and STYLE blocks are kept as written.
+ */
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  identifier?: string; // Cue number (SRT) or id (VTT)
+  timing: string; // "00:00:01,000 --> 00:00:04,000" plus any VTT cue settings
+  start: number; // Milliseconds
+  end: number;
+  prefix: string; // Leading position or voice tag ({\an8}, <v Asha>)
+  lines: string[]; // Text with its styling tags (<i>, <b>, <font>): one entry, or one per speaker in "- " dialogue cues
+  dialogue: boolean;
+}
+
+export type SubtitleBlock = { type: 'cue'; cue: SubtitleCue } | { type: 'raw'; text: string };
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  blocks: SubtitleBlock[];
+}
+
+// Text translated as one unit, and the cue lines it is split back into
+export interface SubtitleSentence {
+  text: string;
+  targets: Array<{ cue: number; line: number; length: number }>; // cue indexes count cues only
+}
+
+const TIMESTAMP = /(?:(\d+):)?(\d{2}):(\d{2})[,.](\d{3})/;
+const LEADING_TAGS = /^(?:\{\\[^}]*\}|<v(?:\.[\w.-]+)?\s[^>]*>)+/;
+const STYLING_TAG = /<(\/?)([a-zA-Z][\w-]*)[^>]*>/g;
+const DIALOGUE_LINE = /^-\s*/;
+// Sentence-final punctuation, optionally followed by closing quotes or brackets
+const SENTENCE_END = /[.!?।॥…][\s"'”’)\]]*$/u;
+
+// Text as shown on screen, for measuring and punctuation checks
+const stripTags = (text: string): string => text.replace(STYLING_TAG, '');
+
+const toMilliseconds = (timestamp: string): number => {
+  const match = timestamp.match(TIMESTAMP);
+  if (!match) {
+    return 0;
+  }
+  const [, hours, minutes, seconds, millis] = match;
+  return ((Number(hours || 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis);
+};
+
+const parseCue = (lines: string[], timingIndex: number): SubtitleCue => {
+  const timing = lines[timingIndex];
+  const [start, end] = timing.split('-->').map(toMilliseconds);
+  const textLines = lines.slice(timingIndex + 1);
+  const prefix = textLines[0]?.match(LEADING_TAGS)?.[0] || '';
+  const plain = textLines
+    .map((line, index) => (index === 0 ? line.slice(prefix.length) : line).trim())
+    .filter(line => stripTags(line).trim());
+  const dialogue = plain.length > 1 && plain.every(line => DIALOGUE_LINE.test(line));
+
+  return {
+    identifier: timingIndex === 1 ? lines[0] : undefined,
+    timing,
+    start,
+    end,
+    prefix,
+    lines: dialogue ? plain.map(line => line.replace(DIALOGUE_LINE, '')) : plain.length > 0 ? [plain.join(' ')] : [],
+    dialogue,
+  };
+};
+
+// Parse an SRT or WebVTT file; the format is taken from the WEBVTT signature
+export const parseSubtitles = (content: string): SubtitleDocument => {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+  const format: SubtitleFormat = text.startsWith('WEBVTT') ? 'vtt' : 'srt';
+
+  const blocks = text.split(/\n[ \t]*\n/).filter(block => block.trim()).map((block): SubtitleBlock => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    return timingIndex === 0 || timingIndex === 1
+      ? { type: 'cue', cue: parseCue(lines, timingIndex) }
+      : { type: 'raw', text: block };
+  });
+
+  if (!blocks.some(block => block.type === 'cue')) {
+    throw new Error('No subtitle cues found in the file');
+  }
+  return { format, blocks };
+};
+
+// Write a document back out; each cue's lines are written one per line
+export const serializeSubtitles = (document: SubtitleDocument): string => {
+  const blocks = document.blocks.map(block => {
+    if (block.type === 'raw') {
+      return block.text;
+    }
+    const { cue } = block;
+    const text = cue.dialogue ? cue.lines.map(line => `- ${line}`) : cue.lines;
+    return [...(cue.identifier !== undefined ? [cue.identifier] : []), cue.timing, cue.prefix + text.join('\n')]
+      .join('\n')
+      .trimEnd();
+  });
+  return `${blocks.join('\n\n')}\n`;
+};
+
+export const subtitleCues = (document: SubtitleDocument): SubtitleCue[] => {
+  return document.blocks.flatMap(block => (block.type === 'cue' ? [block.cue] : []));
+};
+
+/**
+ * Join adjacent cues into sentences so the model sees whole sentences
+ * rather than fragments cut at cue boundaries. A sentence ends at final
+ * punctuation, a pause longer than maxGapMs or after maxCues cues; each
+ * speaker line of a dialogue cue is translated on its own.
+ */
+export const groupSubtitleSentences = (cues: SubtitleCue[], maxCues: number, maxGapMs: number): SubtitleSentence[] => {
+  const sentences: SubtitleSentence[] = [];
+  let current: SubtitleSentence | undefined;
+  let previousEnd = 0;
+
+  cues.forEach((cue, index) => {
+    if (cue.lines.length === 0 || cue.dialogue) {
+      current = undefined;
+      cue.lines.forEach((line, lineIndex) => {
+        sentences.push({ text: line, targets: [{ cue: index, line: lineIndex, length: stripTags(line).length }] });
+      });
+      return;
+    }
+
+    const line = cue.lines[0];
+    const joins = current &&
+      current.targets.length < maxCues &&
+      cue.start - previousEnd <= maxGapMs &&
+      !SENTENCE_END.test(stripTags(current.text));
+    const length = stripTags(line).length;
+    if (current && joins) {
+      current.text += ` ${line}`;
+      current.targets.push({ cue: index, line: 0, length });
+    } else {
+      current = { text: line, targets: [{ cue: index, line: 0, length }] };
+      sentences.push(current);
+    }
+    previousEnd = cue.end;
+  });
+
+  return sentences;
+};
+
+/**
+ * Split a translated sentence into parts in proportion to the source cue
+ * lengths, at word boundaries. A translation with fewer words than parts
+ * is shown whole in every cue rather than leaving cues empty.
+ */
+export const splitTranslation = (text: string, lengths: number[]): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (lengths.length === 1) {
+    return [words.join(' ')];
+  }
+  if (words.length < lengths.length) {
+    return lengths.map(() => words.join(' '));
+  }
+
+  // offsets[n] is where word n starts in the re-joined text
+  const offsets = words.reduce((all, word, index) => [...all, all[index] + word.length + 1], [0]);
+  const totalChars = offsets[words.length] - 1;
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0) || 1;
+
+  const parts: string[] = [];
+  let startWord = 0;
+  let cumulative = 0;
+  lengths.forEach((length, index) => {
+    if (index === lengths.length - 1) {
+      parts.push(words.slice(startWord).join(' '));
+      return;
+    }
+    cumulative += length;
+    const target = (totalChars * cumulative) / totalLength;
+    // Leave at least one word for this part and for each part after it
+    let boundary = startWord + 1;
+    for (let candidate = boundary; candidate <= words.length - (lengths.length - 1 - index); candidate++) {
+      if (Math.abs(offsets[candidate] - target) < Math.abs(offsets[boundary] - target)) {
+        boundary = candidate;
+      }
+    }
+    parts.push(words.slice(startWord, boundary).join(' '));
+    startWord = boundary;
+  });
+
+  return parts;
+};
+
+/**
+ * Close styling tags left open at the end of a part and reopen them at the
+ * start of the next, so "<i>Where are you" / "going?</i>" becomes two
+ * complete italic cues.
+ */
+export const balanceTags = (parts: string[]): string[] => {
+  let open: Array<{ name: string; tag: string }> = [];
+  return parts.map(part => {
+    const reopened = open.map(entry => entry.tag).join('');
+    for (const match of part.matchAll(STYLING_TAG)) {
+      const name = match[2].toLowerCase().split('.')[0];
+      if (!match[1]) {
+        open.push({ name, tag: match[0] });
+      } else {
+        const index = open.map(entry => entry.name).lastIndexOf(name);
+        open = index >= 0 ? [...open.slice(0, index), ...open.slice(index + 1)] : open;
+      }
+    }
+    const closing = open.slice().reverse().map(entry => `</${entry.tag.match(/^<([a-zA-Z][\w-]*)/)![1]}>`).join('');
+    return reopened + part + closing;
+  });
+};
+
+// Greedy word wrap to maxChars characters per line; longer words get a line of their own
+export const wrapSubtitleText = (text: string, maxChars: number): string => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && Array.from(stripTags(candidate)).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
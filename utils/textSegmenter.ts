@@ -0,0 +1,114 @@
+/**
+ * Text Segmenter - Splits long input into model-sized chunks
+ *
+ * Sentence boundaries understood:
+ * - Devanagari/Bengali/Odia danda (।) and double danda (॥)
+ * - Urdu/Sindhi full stop (۔) and Arabic question mark (؟)
+ * - Latin . ! ? when followed by whitespace or end of text
+ *
+ * Line and paragraph breaks are never sent to the model; they are recorded and
+ * restored verbatim by reassembleSegments().
+ */
+
+export interface TextSegment {
+  text: string;
+  paragraph: number; // Index into Segmentation.paragraphBreaks
+}
+
+export interface Segmentation {
+  segments: TextSegment[];
+  paragraphBreaks: string[]; // Whitespace that followed each paragraph
+  truncated: boolean; // True when segments were dropped to respect maxSegments
+}
+
+export interface SegmentOptions {
+  maxTokens: number; // Token budget per segment
+  maxSegments: number;
+  countTokens: (text: string) => number;
+}
+
+// A sentence runs up to its terminator plus any closing quotes or brackets
+const SENTENCE_PATTERN = /[\s\S]+?(?:[।॥۔]+|[.!?؟]+(?=\s|$)|$)["'”’»)\]]*/g;
+const LINE_BREAK_PATTERN = /(\s*\n\s*)/;
+
+// Split text into sentences, keeping terminators attached
+export const splitSentences = (text: string): string[] => {
+  const matches = text.match(SENTENCE_PATTERN) || [];
+  return matches.map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+};
+
+// Split text into segments that each fit the token budget
+export const segmentText = (text: string, options: SegmentOptions): Segmentation => {
+  const parts = text.trim().split(LINE_BREAK_PATTERN);
+  const segments: TextSegment[] = [];
+  const paragraphBreaks: string[] = [];
+
+  // split() with a capture group alternates paragraph text and break whitespace
+  for (let i = 0; i < parts.length; i += 2) {
+    const paragraph = paragraphBreaks.length;
+    paragraphBreaks.push(parts[i + 1] || '');
+
+    let current = '';
+    for (const sentence of splitSentences(parts[i])) {
+      for (const piece of splitToBudget(sentence, options)) {
+        const candidate = current ? `${current} ${piece}` : piece;
+        if (current && options.countTokens(candidate) > options.maxTokens) {
+          segments.push({ text: current, paragraph });
+          current = piece;
+        } else {
+          current = candidate;
+        }
+      }
+    }
+    if (current) {
+      segments.push({ text: current, paragraph });
+    }
+  }
+
+  const truncated = segments.length > options.maxSegments;
+  return {
+    segments: truncated ? segments.slice(0, options.maxSegments) : segments,
+    paragraphBreaks,
+    truncated,
+  };
+};
+
+// Join translated segments back together with the original line breaks
+export const reassembleSegments = (segmentation: Segmentation, translations: string[]): string => {
+  const paragraphs: string[][] = segmentation.paragraphBreaks.map(() => []);
+  segmentation.segments.forEach((segment, index) => {
+    if (translations[index]) {
+      paragraphs[segment.paragraph].push(translations[index]);
+    }
+  });
+
+  let output = '';
+  paragraphs.forEach((sentences, index) => {
+    if (sentences.length === 0) {
+      return;
+    }
+    output += sentences.join(' ') + segmentation.paragraphBreaks[index];
+  });
+  return output.trim();
+};
+
+// Break a sentence that is over budget at word boundaries, and words that are
+// still over budget at character boundaries
+const splitToBudget = (sentence: string, options: SegmentOptions): string[] => {
+  if (options.countTokens(sentence) <= options.maxTokens) {
+    return [sentence];
+  }
+
+  const pieces: string[] = [];
+  for (let word of sentence.split(/\s+/)) {
+    while (options.countTokens(word) > options.maxTokens) {
+      const length = Math.max(1, Math.floor(word.length * options.maxTokens / options.countTokens(word)));
+      pieces.push(word.slice(0, length));
+      word = word.slice(length);
+    }
+    if (word) {
+      pieces.push(word);
+    }
+  }
+  return pieces;
+};
@@ -0,0 +1,361 @@
+/**
+ * Offline romanized-to-Devanagari transliteration for Hindi and Nepali
+ *
+ * Common words come from a dictionary because romanized chat spelling does not
+ * follow any scheme ("aap", "tapai"); everything else goes through ITRANS /
+ * Hunterian style rules. Capitals inside a word use ITRANS meanings (T, D, N,
+ * Sh for retroflex, A/I/U for long vowels, M for anusvara).
+ */
+
+export type RomanizedLanguage = 'hi' | 'ne';
+
+export const TRANSLITERATION_LANGUAGES: RomanizedLanguage[] = ['hi', 'ne'];
+
+export interface RomanizedDetection {
+  language: RomanizedLanguage;
+  score: number; // Share of words recognized as romanized Hindi/Nepali
+}
+
+// Words written the same way in both languages
+const SHARED_WORDS: { [word: string]: string } = {
+  namaste: 'नमस्ते',
+  namaskar: 'नमस्कार',
+  dhanyavaad: 'धन्यवाद',
+  dhanyavad: 'धन्यवाद',
+  dhanyabad: 'धन्यवाद',
+  ji: 'जी',
+  aur: 'और',
+  bahut: 'बहुत',
+  paani: 'पानी',
+  pani: 'पानी',
+  khana: 'खाना',
+  ghar: 'घर',
+  din: 'दिन',
+  raat: 'रात',
+  aaja: 'आज',
+};
+
+const HINDI_WORDS: { [word: string]: string } = {
+  aap: 'आप',
+  ap: 'आप',
+  aapka: 'आपका',
+  aapko: 'आपको',
+  kaise: 'कैसे',
+  kaisa: 'कैसा',
+  kaisi: 'कैसी',
+  ho: 'हो',
+  hai: 'है',
+  hain: 'हैं',
+  hoon: 'हूँ',
+  ja: 'जा',
+  jaa: 'जा',
+  hun: 'हूँ',
+  hu: 'हूँ',
+  kya: 'क्या',
+  kyun: 'क्यों',
+  kyon: 'क्यों',
+  nahi: 'नहीं',
+  nahin: 'नहीं',
+  haan: 'हाँ',
+  main: 'मैं',
+  mein: 'में',
+  mai: 'मैं',
+  mera: 'मेरा',
+  meri: 'मेरी',
+  mere: 'मेरे',
+  tum: 'तुम',
+  tumhara: 'तुम्हारा',
+  tera: 'तेरा',
+  tu: 'तू',
+  hum: 'हम',
+  humara: 'हमारा',
+  yeh: 'यह',
+  ye: 'ये',
+  woh: 'वह',
+  wo: 'वो',
+  kahan: 'कहाँ',
+  kab: 'कब',
+  kaun: 'कौन',
+  kitna: 'कितना',
+  kitne: 'कितने',
+  accha: 'अच्छा',
+  acha: 'अच्छा',
+  achha: 'अच्छा',
+  theek: 'ठीक',
+  thik: 'ठीक',
+  naam: 'नाम',
+  ka: 'का',
+  ki: 'की',
+  ke: 'के',
+  ko: 'को',
+  se: 'से',
+  par: 'पर',
+  bhi: 'भी',
+  tha: 'था',
+  thi: 'थी',
+  the: 'थे',
+  raha: 'रहा',
+  rahi: 'रही',
+  rahe: 'रहे',
+  gaya: 'गया',
+  karo: 'करो',
+  karna: 'करना',
+  karta: 'करता',
+  karti: 'करती',
+  chahiye: 'चाहिए',
+  pyaar: 'प्यार',
+  pyar: 'प्यार',
+  dost: 'दोस्त',
+  shukriya: 'शुक्रिया',
+  aaj: 'आज',
+  kal: 'कल',
+  abhi: 'अभी',
+  bhai: 'भाई',
+  behen: 'बहन',
+  jao: 'जाओ',
+  aao: 'आओ',
+  chalo: 'चलो',
+  samajh: 'समझ',
+  pata: 'पता',
+  matlab: 'मतलब',
+};
+
+const NEPALI_WORDS: { [word: string]: string } = {
+  tapai: 'तपाईं',
+  tapain: 'तपाईं',
+  tapaai: 'तपाईं',
+  tapailai: 'तपाईंलाई',
+  tapaiko: 'तपाईंको',
+  hajur: 'हजुर',
+  kasto: 'कस्तो',
+  kasari: 'कसरी',
+  chha: 'छ',
+  cha: 'छ',
+  chhu: 'छु',
+  chu: 'छु',
+  chhau: 'छौ',
+  chhan: 'छन्',
+  hunuhunchha: 'हुनुहुन्छ',
+  hunuhuncha: 'हुनुहुन्छ',
+  huncha: 'हुन्छ',
+  hunchha: 'हुन्छ',
+  ma: 'म',
+  mero: 'मेरो',
+  timi: 'तिमी',
+  timro: 'तिम्रो',
+  hami: 'हामी',
+  hamro: 'हाम्रो',
+  ramro: 'राम्रो',
+  naramro: 'नराम्रो',
+  ke: 'के',
+  kina: 'किन',
+  kaha: 'कहाँ',
+  kahile: 'कहिले',
+  ko: 'को',
+  lai: 'लाई',
+  bata: 'बाट',
+  ho: 'हो',
+  hoina: 'होइन',
+  hola: 'होला',
+  thiyo: 'थियो',
+  garnu: 'गर्नु',
+  gara: 'गर',
+  garchu: 'गर्छु',
+  garchhu: 'गर्छु',
+  janu: 'जानु',
+  jau: 'जाऊ',
+  aau: 'आऊ',
+  khana: 'खाना',
+  khanu: 'खानु',
+  bhayo: 'भयो',
+  bhaneko: 'भनेको',
+  naam: 'नाम',
+  sathi: 'साथी',
+  didi: 'दिदी',
+  dai: 'दाइ',
+  bahini: 'बहिनी',
+  bhai: 'भाइ',
+  aama: 'आमा',
+  buwa: 'बुवा',
+  maya: 'माया',
+  pani: 'पनि',
+  aba: 'अब',
+  ahile: 'अहिले',
+  bholi: 'भोलि',
+  hijo: 'हिजो',
+  sanchai: 'सन्चै',
+};
+
+const DICTIONARIES: { [language in RomanizedLanguage]: { [word: string]: string } } = {
+  hi: { ...SHARED_WORDS, ...HINDI_WORDS },
+  ne: { ...SHARED_WORDS, ...NEPALI_WORDS },
+};
+
+// Romanized words that are also common English words never count as evidence
+const AMBIGUOUS_WORDS = new Set(['main', 'the', 'to', 'do', 'so', 'he', 'me', 'is', 'us', 'par', 'are', 'ma', 'hi', 'ho', 'din', 'ap', 'dai', 'ke', 'ko']);
+
+// Frequent English words used to tell English sentences apart from romanized Hindi/Nepali
+const ENGLISH_WORDS = new Set([
+  'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'to', 'of', 'and', 'in', 'on', 'at', 'for', 'with',
+  'it', 'this', 'that', 'you', 'i', 'we', 'they', 'he', 'she', 'my', 'your', 'what', 'how', 'where', 'when',
+  'why', 'who', 'not', 'no', 'yes', 'do', 'does', 'did', 'have', 'has', 'can', 'will', 'would', 'please',
+  'hello', 'thank', 'thanks', 'good', 'morning', 'night', 'from', 'name', 'love', 'me',
+]);
+
+// English words and loanwords that stay in Latin script inside romanized Hindi/Nepali
+const ENGLISH_TERMS = new Set([
+  'meeting', 'cancel', 'update', 'phone', 'mobile', 'office', 'file', 'email', 'mail', 'password', 'download',
+  'upload', 'app', 'server', 'login', 'account', 'battery', 'charge', 'charger', 'internet', 'wifi', 'laptop',
+  'computer', 'message', 'call', 'video', 'online', 'offline', 'order', 'delivery', 'payment', 'bank', 'ticket',
+  'train', 'bus', 'doctor', 'school', 'college', 'exam', 'class', 'project', 'deadline', 'team', 'manager', 'boss',
+  'report', 'data', 'system', 'problem', 'issue', 'bug', 'code', 'software', 'website', 'link', 'share', 'post',
+  'sorry', 'okay', 'ok', 'time', 'weekend', 'party', 'movie', 'traffic', 'late', 'free', 'busy', 'plan', 'book',
+  'check', 'confirm', 'schedule', 'client', 'customer', 'price', 'discount', 'sale', 'offer', 'network', 'signal',
+  'screen', 'install', 'setting', 'settings', 'backup', 'camera', 'photo', 'status', 'group', 'chat', 'reply',
+  'actually', 'basically', 'seriously', 'really', 'very', 'just', 'simple', 'sir', 'madam', 'job',
+]);
+
+// Endings that are common in English but rare in romanized Hindi/Nepali
+const ENGLISH_SUFFIX = /(tion|sion|ing|ment|ness|ity|ed|ly|ers?|ies|ful|less|able|ware|ize|ise)$/;
+
+// Consonants, longest spelling first; capitals follow ITRANS
+const CONSONANTS: Array<[string, string]> = [
+  ['chh', 'छ'], ['ksh', 'क्ष'], ['shh', 'ष'],
+  ['kh', 'ख'], ['gh', 'घ'], ['ch', 'च'], ['jh', 'झ'], ['Th', 'ठ'], ['Dh', 'ढ'], ['th', 'थ'], ['dh', 'ध'],
+  ['ph', 'फ'], ['bh', 'भ'], ['Sh', 'ष'], ['sh', 'श'],
+  ['k', 'क'], ['g', 'ग'], ['c', 'च'], ['j', 'ज'], ['T', 'ट'], ['D', 'ड'], ['N', 'ण'], ['t', 'त'], ['d', 'द'],
+  ['n', 'न'], ['p', 'प'], ['f', 'फ़'], ['b', 'ब'], ['m', 'म'], ['y', 'य'], ['r', 'र'], ['l', 'ल'],
+  ['v', 'व'], ['w', 'व'], ['s', 'स'], ['h', 'ह'], ['z', 'ज़'], ['q', 'क़'], ['x', 'क्स'],
+];
+
+// Vowels as [spelling, independent letter, dependent sign after a consonant]
+const VOWELS: Array<[string, string, string]> = [
+  ['aa', 'आ', 'ा'], ['ai', 'ऐ', 'ै'], ['au', 'औ', 'ौ'], ['ee', 'ई', 'ी'], ['ii', 'ई', 'ी'],
+  ['oo', 'ऊ', 'ू'], ['uu', 'ऊ', 'ू'], ['A', 'आ', 'ा'], ['I', 'ई', 'ी'], ['U', 'ऊ', 'ू'],
+  ['a', 'अ', ''], ['i', 'इ', 'ि'], ['u', 'उ', 'ु'], ['e', 'ए', 'े'], ['o', 'ओ', 'ो'],
+];
+
+const VIRAMA = '्';
+const ANUSVARA = 'ं';
+
+const LATIN_WORD = /[A-Za-z]+/g;
+
+const matchAt = <T extends [string, ...string[]]>(word: string, index: number, table: T[]): T | undefined => {
+  return table.find(([spelling]) => word.startsWith(spelling, index));
+};
+
+// Apply the spelling rules to a single Latin word
+const transliterateWord = (word: string): string => {
+  // "Aap" at the start of a sentence is not ITRANS "A" + "ap"
+  const input = /^[A-Z][a-z]*$/.test(word) || word === word.toUpperCase() ? word.toLowerCase() : word;
+  let output = '';
+  let afterConsonant = false;
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (char === 'M') {
+      output += ANUSVARA;
+      afterConsonant = false;
+      index++;
+      continue;
+    }
+
+    // "n" between a vowel and another consonant is usually a nasal: hindi -> हिंदी
+    const next = input[index + 1];
+    if (char === 'n' && index > 0 && !afterConsonant && next && matchAt(input, index + 1, CONSONANTS) && !'yhn'.includes(next)) {
+      output += ANUSVARA;
+      index++;
+      continue;
+    }
+
+    const consonant = matchAt(input, index, CONSONANTS);
+    if (consonant) {
+      output += (afterConsonant ? VIRAMA : '') + consonant[1];
+      afterConsonant = true;
+      index += consonant[0].length;
+      continue;
+    }
+
+    const vowel = matchAt(input, index, VOWELS);
+    if (vowel) {
+      output += afterConsonant ? vowel[2] : vowel[1];
+      afterConsonant = false;
+      index += vowel[0].length;
+      continue;
+    }
+
+    output += char;
+    afterConsonant = false;
+    index++;
+  }
+
+  // Word-final consonants keep no virama: Hindi and Nepali drop the final schwa in speech
+  return output;
+};
+
+// Convert Latin words to Devanagari, leaving punctuation, native text and any word keepWord accepts untouched
+export const transliterateToNative = (
+  text: string,
+  language: RomanizedLanguage,
+  keepWord?: (word: string) => boolean
+): string => {
+  const dictionary = DICTIONARIES[language];
+  return text.replace(LATIN_WORD, (word) => {
+    if (keepWord?.(word)) {
+      return word;
+    }
+    return dictionary[word.toLowerCase()] ?? transliterateWord(word);
+  });
+};
+
+// Whether a Latin word is romanized Hindi/Nepali from the bundled dictionary
+export const isRomanizedWord = (word: string, language: RomanizedLanguage): boolean => {
+  return DICTIONARIES[language][word.toLowerCase()] !== undefined;
+};
+
+// Whether a Latin word that is not in the romanized dictionary reads as English
+export const looksEnglish = (word: string): boolean => {
+  const lower = word.toLowerCase();
+  return ENGLISH_WORDS.has(lower) || ENGLISH_TERMS.has(lower) || (lower.length >= 5 && ENGLISH_SUFFIX.test(lower));
+};
+
+// Share of letters in the Latin script (0 when there are no letters)
+export const latinLetterRatio = (text: string): number => {
+  const letters = text.match(/\p{L}/gu);
+  if (!letters) {
+    return 0;
+  }
+  return letters.filter(letter => /[A-Za-z]/.test(letter)).length / letters.length;
+};
+
+// Recognize Hindi or Nepali typed in Latin script; null for English and native-script text
+export const detectRomanizedIndic = (text: string): RomanizedDetection | null => {
+  if (latinLetterRatio(text) < 0.8) {
+    return null;
+  }
+
+  const words = (text.match(LATIN_WORD) || []).map(word => word.toLowerCase());
+  if (words.length === 0) {
+    return null;
+  }
+
+  const count = (dictionary: { [word: string]: string }) => {
+    return words.filter(word => dictionary[word] !== undefined && !AMBIGUOUS_WORDS.has(word)).length;
+  };
+  const hindiHits = count(DICTIONARIES.hi);
+  const nepaliHits = count(DICTIONARIES.ne);
+  const englishHits = words.filter(word => ENGLISH_WORDS.has(word)).length;
+  const hits = Math.max(hindiHits, nepaliHits);
+
+  if (hits === 0 || hits <= englishHits || hits / words.length < 0.25) {
+    return null;
+  }
+
+  // Shared words count for both; Hindi wins ties as the more common language
+  return {
+    language: nepaliHits > hindiHits ? 'ne' : 'hi',
+    score: hits / words.length,
+  };
+};
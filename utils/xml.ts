@@ -0,0 +1,39 @@
+/**
+ * Small XML string helpers for the file formats the app reads and writes
+ * (TMX, Android strings.xml). React Native has no DOMParser, so parsing is
+ * done with targeted regular expressions by the callers.
+ */
+
+// Escape text for use in element content or attribute values
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// Decode the predefined and numeric character entities
+export const decodeXmlEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    const named: { [key: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    return named[entity] ?? match;
+  });
+};
+
+// Read an attribute value from an element's opening tag
+export const getXmlAttribute = (tag: string, name: string): string | undefined => {
+  const escapedName = name.replace(/[.*+?^${}()|[\]\\:]/g, '\\$&');
+  const match = tag.match(new RegExp(`\\s${escapedName}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  if (!match) {
+    return undefined;
+  }
+  return decodeXmlEntities(match[2] ?? match[3]);
+};